@@ -13,11 +13,32 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as analytics from "../analytics.js";
+import type * as answerCache from "../answerCache.js";
+import type * as apiKeys from "../apiKeys.js";
 import type * as auth from "../auth.js";
+import type * as batch from "../batch.js";
+import type * as chunking from "../chunking.js";
+import type * as chunks from "../chunks.js";
+import type * as conversations from "../conversations.js";
+import type * as diff from "../diff.js";
 import type * as documents from "../documents.js";
+import type * as embeddings from "../embeddings.js";
+import type * as evaluations from "../evaluations.js";
+import type * as extraction from "../extraction.js";
+import type * as feedback from "../feedback.js";
+import type * as hashing from "../hashing.js";
 import type * as http from "../http.js";
+import type * as ingest from "../ingest.js";
+import type * as llm from "../llm.js";
+import type * as openapi from "../openapi.js";
 import type * as queries from "../queries.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as retrieval from "../retrieval.js";
 import type * as router from "../router.js";
+import type * as settings from "../settings.js";
+import type * as usage from "../usage.js";
+import type * as workspaces from "../workspaces.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -28,11 +49,32 @@ import type * as router from "../router.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  analytics: typeof analytics;
+  answerCache: typeof answerCache;
+  apiKeys: typeof apiKeys;
   auth: typeof auth;
+  batch: typeof batch;
+  chunking: typeof chunking;
+  chunks: typeof chunks;
+  conversations: typeof conversations;
+  diff: typeof diff;
   documents: typeof documents;
+  embeddings: typeof embeddings;
+  evaluations: typeof evaluations;
+  extraction: typeof extraction;
+  feedback: typeof feedback;
+  hashing: typeof hashing;
   http: typeof http;
+  ingest: typeof ingest;
+  llm: typeof llm;
+  openapi: typeof openapi;
   queries: typeof queries;
+  rateLimits: typeof rateLimits;
+  retrieval: typeof retrieval;
   router: typeof router;
+  settings: typeof settings;
+  usage: typeof usage;
+  workspaces: typeof workspaces;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,213 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { percentile } from "./evaluations";
+import { requireWorkspaceAccess } from "./workspaces";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DAYS = 90;
+// Newest queries aggregated per request; older ones in the period are left out
+const MAX_ANALYZED_QUERIES = 5000;
+const MAX_QUESTION_LENGTH = 200;
+const TOP_DOCUMENTS = 10;
+const PROBLEM_QUESTIONS = 20;
+const BACKFILL_BATCH_SIZE = 100;
+
+// Aggregates the workspace's queries over the last `days` days. Covers every
+// member's questions, so it is limited to editors and owners.
+export const getQueryAnalytics = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+    days: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await requireWorkspaceAccess(ctx, args.workspaceId, "editor");
+    if (!Number.isInteger(args.days) || args.days < 1 || args.days > MAX_DAYS) {
+      throw new Error(`Choose a period of 1 to ${MAX_DAYS} days`);
+    }
+
+    // Whole UTC days, so each bucket of the volume chart is a full day
+    const since = startOfDay(Date.now()) - (args.days - 1) * DAY_MS;
+    const metrics = await ctx.db
+      .query("queryMetrics")
+      .withIndex("by_workspace_and_asked", (q) => q.eq("workspaceId", args.workspaceId).gte("askedAt", since))
+      .order("desc")
+      .take(MAX_ANALYZED_QUERIES);
+
+    const volume = Array.from({ length: args.days }, (_, index) => ({
+      day: since + index * DAY_MS,
+      queries: 0,
+      failed: 0,
+      abstained: 0,
+    }));
+    for (const row of metrics) {
+      const bucket = volume[Math.floor((row.askedAt - since) / DAY_MS)];
+      if (bucket) {
+        bucket.queries++;
+        if (row.failed) bucket.failed++;
+        if (row.abstained) bucket.abstained++;
+      }
+    }
+
+    const answered = metrics.filter((row) => !row.failed);
+    const split = answered.filter((row) => row.retrievalTime !== undefined && row.generationTime !== undefined);
+    const latency = (values: number[]) => ({
+      p50: percentile(values, 0.5),
+      p95: percentile(values, 0.95),
+    });
+
+    const citations = countDocuments(answered.map((row) => row.citedDocumentIds));
+    const retrieved = countDocuments(answered.map((row) => row.retrievedDocumentIds));
+
+    const mostCited = await Promise.all(
+      [...citations.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_DOCUMENTS)
+        .map(async ([documentId, count]) => ({
+          documentId,
+          title: (await ctx.db.get(documentId))?.title ?? "Deleted document",
+          citations: count,
+        })),
+    );
+
+    // Only current versions; superseded ones aren't expected to be retrieved
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+    const neverRetrieved = documents
+      .filter((document) => !document.supersededBy && (!document.status || document.status === "ready"))
+      .filter((document) => !retrieved.has(document._id))
+      .map((document) => ({ documentId: document._id, title: document.title, uploadedAt: document._creationTime }));
+
+    const problemQuestions = answered
+      .filter((row) => row.abstained || row.lowConfidence)
+      .slice(0, PROBLEM_QUESTIONS)
+      .map((row) => ({
+        queryId: row.queryId,
+        question: row.question,
+        askedAt: row.askedAt,
+        abstained: row.abstained,
+        lowConfidence: row.lowConfidence,
+      }));
+
+    return {
+      since,
+      truncated: metrics.length === MAX_ANALYZED_QUERIES,
+      totals: {
+        queries: metrics.length,
+        failed: metrics.length - answered.length,
+        abstained: answered.filter((row) => row.abstained).length,
+        lowConfidence: answered.filter((row) => row.lowConfidence).length,
+      },
+      volume,
+      latency: {
+        total: latency(answered.map((row) => row.processingTime)),
+        retrieval: latency(split.map((row) => row.retrievalTime!)),
+        generation: latency(split.map((row) => row.generationTime!)),
+        // Queries answered before the split was recorded only count towards the total
+        splitQueries: split.length,
+      },
+      mostCited,
+      neverRetrieved,
+      problemQuestions,
+    };
+  },
+});
+
+// Called once a query has finished, successfully or not
+export const recordQueryMetrics = internalMutation({
+  args: {
+    queryId: v.id("queries"),
+  },
+  handler: async (ctx, args) => {
+    const record = await ctx.db.get(args.queryId);
+    if (record) {
+      await upsertQueryMetrics(ctx, record);
+    }
+  },
+});
+
+// Adds metrics for queries finished before they were recorded. Run once with
+//   npx convex run analytics:backfillQueryMetrics
+export const backfillQueryMetrics = internalMutation({
+  args: {
+    paginationOpts: v.optional(paginationOptsValidator),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("queries")
+      .paginate(args.paginationOpts ?? { numItems: BACKFILL_BATCH_SIZE, cursor: null });
+
+    for (const record of page.page) {
+      await upsertQueryMetrics(ctx, record);
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.analytics.backfillQueryMetrics, {
+        paginationOpts: { numItems: BACKFILL_BATCH_SIZE, cursor: page.continueCursor },
+      });
+    }
+  },
+});
+
+async function upsertQueryMetrics(ctx: MutationCtx, record: Doc<"queries">) {
+  const finished = !record.status || record.status === "complete" || record.status === "failed";
+  // Evaluation runs have their own metrics
+  if (!record.workspaceId || !finished || record.evaluationRunId) {
+    return;
+  }
+
+  const failed = record.status === "failed";
+  const retrievedDocumentIds = unique(record.sources.map((source) => source.documentId));
+  // Answers from before citations were recorded are counted as citing everything retrieved
+  const citedDocumentIds = failed || record.abstained ? [] : record.answerSentences
+    ? unique(record.answerSentences
+      .flatMap((sentence) => sentence.sourceIndices)
+      .map((index) => record.sources[index - 1]?.documentId)
+      .filter((documentId) => documentId !== undefined))
+    : retrievedDocumentIds;
+
+  const fields = {
+    workspaceId: record.workspaceId,
+    queryId: record._id,
+    askedAt: record._creationTime,
+    question: record.query.slice(0, MAX_QUESTION_LENGTH),
+    failed,
+    abstained: record.abstained ?? false,
+    lowConfidence: record.groundedness?.level === "low",
+    processingTime: record.processingTime,
+    retrievalTime: record.retrievalTime,
+    generationTime: record.generationTime,
+    retrievedDocumentIds,
+    citedDocumentIds,
+  };
+
+  const existing = await ctx.db
+    .query("queryMetrics")
+    .withIndex("by_query", (q) => q.eq("queryId", record._id))
+    .unique();
+  if (existing) {
+    await ctx.db.replace(existing._id, fields);
+  } else {
+    await ctx.db.insert("queryMetrics", fields);
+  }
+}
+
+function countDocuments(documentIdLists: Id<"documents">[][]) {
+  const counts = new Map<Id<"documents">, number>();
+  for (const documentId of documentIdLists.flat()) {
+    counts.set(documentId, (counts.get(documentId) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function unique<T>(values: T[]) {
+  return [...new Set(values)];
+}
+
+function startOfDay(timestamp: number) {
+  return timestamp - (timestamp % DAY_MS);
+}
@@ -0,0 +1,228 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, ActionCtx, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { sha256Hex } from "./hashing";
+import { getLlmProvider, ModelSettings, TokenUsage } from "./llm";
+import { DEFAULT_ANSWER_CACHE_SETTINGS, findSettings } from "./settings";
+
+// Cached answers also expire, so changes to prompts and to the provider's
+// models eventually apply
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Cosine similarity above which a differently worded question counts as the same
+const SIMILAR_QUESTION_THRESHOLD = 0.95;
+// Expired answers deleted each time an answer is cached
+const EXPIRED_BATCH_SIZE = 20;
+
+// Where an answer to a question is looked up and stored
+export type AnswerCacheKey = {
+  workspaceId: Id<"workspaces">;
+  contextKey: string;
+  questionKey: string;
+  // Unset unless the workspace matches similar questions
+  embedding?: number[];
+};
+
+type CachedAnswer = Pick<Doc<"queries">, "response" | "sources" | "answerSentences" | "groundedness"> & {
+  answeredAt: number;
+};
+
+// The workspace's cache settings, and the version of every document a
+// question would search; null when the workspace doesn't cache answers
+export const getCacheContext = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    // The question's resolved scope; all current documents when unset
+    documentIds: v.optional(v.array(v.id("documents"))),
+  },
+  handler: async (ctx, args) => {
+    const settings = (await findSettings(ctx, args.workspaceId))?.answerCache ?? DEFAULT_ANSWER_CACHE_SETTINGS;
+    if (!settings.enabled) {
+      return null;
+    }
+
+    const documents = args.documentIds
+      ? (await Promise.all(args.documentIds.map((id) => ctx.db.get(id)))).filter((doc) => doc !== null)
+      : (await ctx.db
+        .query("documents")
+        .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+        .collect())
+        .filter((doc) => !doc.supersededBy);
+
+    return {
+      matchSimilarQuestions: settings.matchSimilarQuestions,
+      // Changes whenever a document is added, removed or reprocessed
+      documentVersions: documents
+        .map((doc) => `${doc._id}:${doc.status ?? ""}:${doc.processedAt ?? ""}`)
+        .sort(),
+    };
+  },
+});
+
+export const getCachedAnswer = internalQuery({
+  args: {
+    questionKey: v.string(),
+  },
+  handler: async (ctx, args): Promise<CachedAnswer | null> => {
+    const entry = await ctx.db
+      .query("cachedAnswers")
+      .withIndex("by_question_key", (q) => q.eq("questionKey", args.questionKey))
+      .first();
+    return entry && await loadCachedAnswer(ctx, entry);
+  },
+});
+
+export const getCachedAnswerById = internalQuery({
+  args: {
+    cachedAnswerId: v.id("cachedAnswers"),
+  },
+  handler: async (ctx, args): Promise<CachedAnswer | null> => {
+    const entry = await ctx.db.get(args.cachedAnswerId);
+    return entry && await loadCachedAnswer(ctx, entry);
+  },
+});
+
+// Stores a freshly generated answer, replacing any cached for the same key
+export const cacheAnswer = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    contextKey: v.string(),
+    questionKey: v.string(),
+    embedding: v.optional(v.array(v.float64())),
+    queryId: v.id("queries"),
+    // The documents the answer's sources come from
+    documentIds: v.array(v.id("documents")),
+  },
+  handler: async (ctx, args) => {
+    const { documentIds, ...fields } = args;
+
+    const existing = await ctx.db
+      .query("cachedAnswers")
+      .withIndex("by_question_key", (q) => q.eq("questionKey", args.questionKey))
+      .collect();
+    for (const entry of existing) {
+      await deleteCachedAnswer(ctx, entry._id);
+    }
+
+    const cachedAnswerId = await ctx.db.insert("cachedAnswers", fields);
+    for (const documentId of new Set(documentIds)) {
+      await ctx.db.insert("cachedAnswerDocuments", { cachedAnswerId, documentId });
+    }
+
+    const expired = await ctx.db
+      .query("cachedAnswers")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId).lt("_creationTime", Date.now() - CACHE_TTL_MS))
+      .take(EXPIRED_BATCH_SIZE);
+    for (const entry of expired) {
+      await deleteCachedAnswer(ctx, entry._id);
+    }
+  },
+});
+
+// Hashes everything an answer to `question` depends on into cache keys, and
+// embeds the question when similar questions are matched. Null when the
+// workspace doesn't cache answers.
+export async function getAnswerCacheKey(
+  ctx: ActionCtx,
+  workspaceId: Id<"workspaces">,
+  question: string,
+  documentIds: Id<"documents">[] | null,
+  settings: ModelSettings,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<AnswerCacheKey | null> {
+  const context = await ctx.runQuery(internal.answerCache.getCacheContext, {
+    workspaceId,
+    documentIds: documentIds ?? undefined,
+  });
+  if (!context) {
+    return null;
+  }
+
+  const contextKey = await sha256Hex(JSON.stringify({
+    workspaceId,
+    documents: context.documentVersions,
+    settings,
+    llmProvider: process.env.LLM_PROVIDER ?? "openai",
+    embeddingProvider: process.env.EMBEDDING_PROVIDER ?? "openai",
+  }));
+  const normalized = normalizeQuestion(question);
+  const [embedding] = context.matchSimilarQuestions
+    ? await getLlmProvider().embed([normalized], onUsage)
+    : [undefined];
+
+  return {
+    workspaceId,
+    contextKey,
+    questionKey: await sha256Hex(`${contextKey}\n${normalized}`),
+    embedding,
+  };
+}
+
+// An answer cached for the same question or, when enabled, a similar one
+export async function findCachedAnswer(ctx: ActionCtx, key: AnswerCacheKey) {
+  const exact = await ctx.runQuery(internal.answerCache.getCachedAnswer, { questionKey: key.questionKey });
+  if (exact || !key.embedding) {
+    return exact && { ...exact, similarQuestion: false };
+  }
+
+  const [match] = await ctx.vectorSearch("cachedAnswers", "by_embedding", {
+    vector: key.embedding,
+    limit: 1,
+    filter: (q) => q.eq("contextKey", key.contextKey),
+  });
+  if (!match || match._score < SIMILAR_QUESTION_THRESHOLD) {
+    return null;
+  }
+  const similar = await ctx.runQuery(internal.answerCache.getCachedAnswerById, { cachedAnswerId: match._id });
+  return similar && { ...similar, similarQuestion: true };
+}
+
+// Drops cached answers citing a document once it is reprocessed, replaced or deleted
+export async function invalidateCachedAnswers(ctx: MutationCtx, documentId: Id<"documents">) {
+  const links = await ctx.db
+    .query("cachedAnswerDocuments")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .collect();
+  for (const link of links) {
+    await deleteCachedAnswer(ctx, link.cachedAnswerId);
+  }
+}
+
+async function loadCachedAnswer(ctx: QueryCtx, entry: Doc<"cachedAnswers">): Promise<CachedAnswer | null> {
+  if (entry._creationTime < Date.now() - CACHE_TTL_MS) {
+    return null;
+  }
+
+  const record = await ctx.db.get(entry.queryId);
+  if (!record || record.status !== "complete") {
+    return null;
+  }
+  return {
+    answeredAt: record._creationTime,
+    response: record.response,
+    sources: record.sources,
+    answerSentences: record.answerSentences,
+    groundedness: record.groundedness,
+  };
+}
+
+async function deleteCachedAnswer(ctx: MutationCtx, cachedAnswerId: Id<"cachedAnswers">) {
+  const links = await ctx.db
+    .query("cachedAnswerDocuments")
+    .withIndex("by_cached_answer", (q) => q.eq("cachedAnswerId", cachedAnswerId))
+    .collect();
+  for (const link of links) {
+    await ctx.db.delete(link._id);
+  }
+  if (await ctx.db.get(cachedAnswerId)) {
+    await ctx.db.delete(cachedAnswerId);
+  }
+}
+
+// Case, punctuation and spacing don't change what a question asks
+function normalizeQuestion(question: string) {
+  return question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
@@ -0,0 +1,177 @@
+import { v, Infer } from "convex/values";
+import { mutation, query, internalQuery, internalMutation, MutationCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { Id } from "./_generated/dataModel";
+import { randomHex, sha256Hex } from "./hashing";
+import { apiKeyScopeValidator } from "./schema";
+import { findPersonalWorkspace, getMembership, hasRole, requireWorkspaceAccess } from "./workspaces";
+
+export type ApiKeyScope = Infer<typeof apiKeyScopeValidator>;
+
+// Last-used times are only rewritten once they are this stale, so busy keys
+// don't write to the database on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+const MAX_KEY_NAME_LENGTH = 60;
+
+export const createApiKey = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+    scope: apiKeyScopeValidator,
+  },
+  handler: async (ctx, args) => {
+    const { userId, role } = await requireWorkspaceAccess(ctx, args.workspaceId);
+    if (args.scope === "ingest" && !hasRole(role, "editor")) {
+      throw new Error("Only editors and owners can create keys that add documents");
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("Key name is required");
+    }
+    if (name.length > MAX_KEY_NAME_LENGTH) {
+      throw new Error(`Key names can be at most ${MAX_KEY_NAME_LENGTH} characters long`);
+    }
+
+    const key = generateApiKey();
+
+    await ctx.db.insert("apiKeys", {
+      userId,
+      workspaceId: args.workspaceId,
+      name,
+      scope: args.scope,
+      keyHash: await sha256Hex(key),
+      keyPrefix: key.slice(0, 10),
+    });
+
+    // The plaintext key is only ever returned here and by rotateApiKey; we store its hash
+    return key;
+  },
+});
+
+// The signed-in user's keys for a workspace. Keys belong to whoever created
+// them, so other members' keys aren't listed.
+export const listApiKeys = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const keys = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_user_and_workspace", (q) => q.eq("userId", userId).eq("workspaceId", args.workspaceId))
+      .order("desc")
+      .collect();
+
+    // Keys from before workspaces are shown with the personal workspace
+    if ((await findPersonalWorkspace(ctx, userId)) === args.workspaceId) {
+      keys.push(...await ctx.db
+        .query("apiKeys")
+        .withIndex("by_user_and_workspace", (q) => q.eq("userId", userId).eq("workspaceId", undefined))
+        .order("desc")
+        .collect());
+    }
+
+    return keys.map(({ keyHash: _keyHash, ...key }) => ({ ...key, scope: key.scope ?? "read" }));
+  },
+});
+
+// Replaces a key's secret, keeping its name and scope. The old secret stops
+// working immediately.
+export const rotateApiKey = mutation({
+  args: {
+    keyId: v.id("apiKeys"),
+  },
+  handler: async (ctx, args) => {
+    await requireOwnKey(ctx, args.keyId);
+
+    const key = generateApiKey();
+    await ctx.db.patch(args.keyId, {
+      keyHash: await sha256Hex(key),
+      keyPrefix: key.slice(0, 10),
+      rotatedAt: Date.now(),
+    });
+
+    return key;
+  },
+});
+
+export const revokeApiKey = mutation({
+  args: {
+    keyId: v.id("apiKeys"),
+  },
+  handler: async (ctx, args) => {
+    await requireOwnKey(ctx, args.keyId);
+    await ctx.db.delete(args.keyId);
+  },
+});
+
+// Resolves a hashed key to the user and workspace requests act as. A key
+// stops working when its user leaves the workspace, and can only read once
+// they are no longer an editor.
+export const authenticateApiKey = internalQuery({
+  args: {
+    keyHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const apiKey = await ctx.db
+      .query("apiKeys")
+      .withIndex("by_hash", (q) => q.eq("keyHash", args.keyHash))
+      .unique();
+    if (!apiKey) {
+      return null;
+    }
+
+    const workspaceId = apiKey.workspaceId ?? await findPersonalWorkspace(ctx, apiKey.userId);
+    const membership = workspaceId && await getMembership(ctx, workspaceId, apiKey.userId);
+    if (!workspaceId || !membership) {
+      return null;
+    }
+
+    const scope: ApiKeyScope = apiKey.scope === "ingest" && hasRole(membership.role, "editor") ? "ingest" : "read";
+    return {
+      keyId: apiKey._id,
+      userId: apiKey.userId,
+      workspaceId,
+      scope,
+    };
+  },
+});
+
+export const recordApiKeyUse = internalMutation({
+  args: {
+    keyId: v.id("apiKeys"),
+  },
+  handler: async (ctx, args) => {
+    const apiKey = await ctx.db.get(args.keyId);
+    if (apiKey && Date.now() - (apiKey.lastUsedAt ?? 0) >= LAST_USED_RESOLUTION_MS) {
+      await ctx.db.patch(args.keyId, { lastUsedAt: Date.now() });
+    }
+  },
+});
+
+// Whether a key with `scope` may be used for something that needs `requiredScope`
+export function hasScope(scope: ApiKeyScope, requiredScope: ApiKeyScope) {
+  return scope === "ingest" || requiredScope === "read";
+}
+
+async function requireOwnKey(ctx: MutationCtx, keyId: Id<"apiKeys">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+
+  const apiKey = await ctx.db.get(keyId);
+  if (!apiKey || apiKey.userId !== userId) {
+    throw new Error("API key not found or unauthorized");
+  }
+  return apiKey;
+}
+
+function generateApiKey() {
+  return "hrx_" + randomHex(24);
+}
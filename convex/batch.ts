@@ -0,0 +1,163 @@
+import { v } from "convex/values";
+import { action } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { chunkDocument } from "./chunking";
+import { extractDocument } from "./extraction";
+import { fetchDocument } from "./ingest";
+import { createUsageCounter } from "./llm";
+import { generateResponse } from "./queries";
+import { rateLimitMessage } from "./rateLimits";
+import { Source } from "./schema";
+import { findRelevantSources, indexDocuments, searchRelevantSources } from "./retrieval";
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_CONCURRENCY = 10;
+export const MAX_BATCH_QUESTIONS = 100;
+
+type BatchSource = {
+  documentTitle: string;
+  relevantChunk: string;
+  confidence: number;
+  pageNumber?: number;
+  sectionPath?: string[];
+};
+
+type BatchAnswer = {
+  question: string;
+  answer: string;
+  abstained: boolean;
+  sources: BatchSource[];
+  // Set when this question failed; the rest of the batch is still answered
+  error?: string;
+};
+
+// Answers many questions about one document, either a stored document or one
+// fetched from a URL. Answers come back in the order the questions were asked.
+export const answerQuestions = action({
+  args: {
+    // Whose model settings are used, and which workspace `documentId` is in
+    workspaceId: v.id("workspaces"),
+    documentId: v.optional(v.id("documents")),
+    url: v.optional(v.string()),
+    questions: v.array(v.string()),
+    // How many questions are answered at the same time
+    concurrency: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<BatchAnswer[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const workspaceId = args.workspaceId;
+    const role = await ctx.runQuery(internal.workspaces.getMemberRole, { workspaceId, userId });
+    if (!role) {
+      throw new Error("Workspace not found or unauthorized");
+    }
+
+    if ((args.documentId === undefined) === (args.url === undefined)) {
+      throw new Error("Provide either a document or a URL");
+    }
+    if (args.questions.length === 0 || args.questions.length > MAX_BATCH_QUESTIONS) {
+      throw new Error(`Provide between 1 and ${MAX_BATCH_QUESTIONS} questions`);
+    }
+    const concurrency = args.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+      throw new Error(`Concurrency must be a whole number between 1 and ${MAX_BATCH_CONCURRENCY}`);
+    }
+
+    // A batch is one request: it takes one rate-limit token, and the quota is
+    // checked before fetching anything. Each question's tokens are still
+    // recorded as usage.
+    const quotaError = await ctx.runQuery(internal.usage.checkQuota, { workspaceId, userId });
+    if (quotaError) {
+      throw new Error(quotaError);
+    }
+    const retryAfterMs = await ctx.runMutation(internal.rateLimits.takeRateLimitToken, { userId, name: "query" });
+    if (retryAfterMs !== null) {
+      throw new Error(rateLimitMessage(retryAfterMs));
+    }
+
+    let retrieve: (question: string) => Promise<Array<BatchSource & Pick<Source, "scores">>>;
+    if (args.documentId) {
+      const documentId = args.documentId;
+      const document = await ctx.runQuery(internal.documents.getDocument, { documentId });
+      if (!document || document.workspaceId !== workspaceId) {
+        throw new Error("Document not found or unauthorized");
+      }
+      if (document.status && document.status !== "ready") {
+        throw new Error("Document is still being processed");
+      }
+      // Search the stored chunks and embeddings of this document only
+      retrieve = (question) => searchRelevantSources(ctx, workspaceId, question, [documentId]);
+    } else {
+      const url = args.url!;
+      const fetched = await fetchDocument(url);
+      const extracted = await extractDocument(new Blob([fetched.bytes]), fetched.contentType, fetched.fileName);
+      // Chunked like a stored document, with the workspace's default settings.
+      // Chunks are embedded once and shared by every question.
+      const chunking = await ctx.runQuery(internal.settings.getDefaultChunking, { workspaceId });
+      const index = await indexDocuments([{
+        _id: url,
+        title: url,
+        chunks: chunkDocument("batch", extracted.content, { ...extracted, chunking: chunking ?? undefined }),
+      }]);
+      retrieve = (question) => findRelevantSources(question, index);
+    }
+
+    const settings = await ctx.runQuery(internal.settings.getModelSettings, { workspaceId });
+
+    return await mapWithConcurrency(args.questions, concurrency, async (question) => {
+      const usage = createUsageCounter();
+      try {
+        const sources = await retrieve(question);
+        const response = await generateResponse(question, sources, { settings, onUsage: usage.add });
+        return {
+          question,
+          answer: response.answer,
+          abstained: response.abstained,
+          sources: sources.map((source) => ({
+            documentTitle: source.documentTitle,
+            relevantChunk: source.relevantChunk,
+            confidence: source.confidence,
+            pageNumber: source.pageNumber,
+            sectionPath: source.sectionPath,
+          })),
+        };
+      } catch (error: any) {
+        return {
+          question,
+          answer: "",
+          abstained: false,
+          sources: [],
+          error: error.message || "Failed to answer question",
+        };
+      } finally {
+        // Tokens spent before a failure still count
+        await ctx.runMutation(internal.usage.recordUsage, { workspaceId, userId, ...usage.total, queries: 1 });
+      }
+    });
+  },
+});
+
+// Like Promise.all over `items`, but with at most `limit` calls in flight.
+// Results keep the order of `items`.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
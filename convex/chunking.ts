@@ -0,0 +1,245 @@
+import { Infer } from "convex/values";
+import { chunkingValidator, headingValidator, pageValidator } from "./schema";
+
+export type ChunkingSettings = Infer<typeof chunkingValidator>;
+export type ChunkingStrategy = ChunkingSettings["strategy"];
+
+// Sizes are in characters, except for the "tokens" strategy
+export const DEFAULT_CHUNKING: Record<ChunkingStrategy, ChunkingSettings> = {
+  fixed: { strategy: "fixed", chunkSize: 1000, overlap: 200 },
+  sentence: { strategy: "sentence", chunkSize: 1000, overlap: 200 },
+  section: { strategy: "section", chunkSize: 1500, overlap: 200 },
+  tokens: { strategy: "tokens", chunkSize: 256, overlap: 32 },
+};
+
+type Span = { start: number; end: number; sectionPath?: string[] };
+type Section = { startIndex: number; path: string[] };
+
+type ChunkDocumentOptions = {
+  pages?: Infer<typeof pageValidator>[];
+  // Headings already known from extraction (HTML); otherwise they are detected in the text
+  outline?: Infer<typeof headingValidator>[];
+  chunking?: ChunkingSettings;
+};
+
+// Chunking pipeline shared by stored documents and documents fetched over HTTP
+export function chunkDocument(idPrefix: string, text: string, options: ChunkDocumentOptions = {}) {
+  const settings = options.chunking ?? DEFAULT_CHUNKING.fixed;
+  const sections = buildSections(options.outline ?? detectHeadings(text));
+
+  let spans: Span[];
+  switch (settings.strategy) {
+    case "fixed":
+      spans = splitIntoChunks(text, settings.chunkSize, settings.overlap);
+      break;
+    case "sentence":
+      spans = packUnits(text, splitIntoUnits(text, 0, text.length), settings, spanLength);
+      break;
+    case "section":
+      // Chunks never cross a section boundary
+      spans = sectionRanges(text, sections).flatMap(({ start, end, sectionPath }) =>
+        packUnits(text, splitIntoUnits(text, start, end), settings, spanLength)
+          .map((span) => ({ ...span, sectionPath }))
+      );
+      break;
+    case "tokens":
+      spans = packUnits(text, splitIntoWords(text), settings, (span) => countTokens(text.slice(span.start, span.end)));
+      break;
+  }
+
+  return spans.map((span, index) => ({
+    id: `${idPrefix}-${index}`,
+    content: text.slice(span.start, span.end),
+    startIndex: span.start,
+    endIndex: span.end,
+    // The page and section the chunk starts in
+    pageNumber: options.pages?.filter((page) => page.startIndex <= span.start).pop()?.pageNumber,
+    sectionPath: span.sectionPath ?? sections.filter((section) => section.startIndex <= span.start).pop()?.path,
+  }));
+}
+
+// Helper function to split text into overlapping fixed-size character windows
+function splitIntoChunks(text: string, chunkSize: number, overlap: number) {
+  const chunks = [];
+  let startIndex = 0;
+
+  while (startIndex < text.length) {
+    const endIndex = Math.min(startIndex + chunkSize, text.length);
+    chunks.push({ start: startIndex, end: endIndex });
+
+    if (endIndex === text.length) break;
+    startIndex = Math.max(endIndex - overlap, startIndex + 1);
+  }
+
+  return chunks;
+}
+
+// Greedily packs consecutive units into chunks of at most `chunkSize`,
+// starting each chunk with the trailing units of the previous one as overlap
+function packUnits(text: string, units: Span[], settings: ChunkingSettings, measure: (span: Span) => number) {
+  const chunks: Span[] = [];
+  let first = 0;
+
+  while (first < units.length) {
+    let last = first;
+    let size = measure(units[first]);
+    while (last + 1 < units.length && size + measure(units[last + 1]) <= settings.chunkSize) {
+      last++;
+      size += measure(units[last]);
+    }
+
+    // A single unit larger than a chunk (e.g. a very long sentence) falls back to fixed windows
+    if (size > settings.chunkSize && settings.strategy !== "tokens") {
+      const { start, end } = units[first];
+      for (const window of splitIntoChunks(text.slice(start, end), settings.chunkSize, settings.overlap)) {
+        chunks.push(trimSpan(text, { start: start + window.start, end: start + window.end }));
+      }
+    } else {
+      chunks.push(trimSpan(text, { start: units[first].start, end: units[last].end }));
+    }
+
+    if (last + 1 >= units.length) break;
+
+    let next = last + 1;
+    let overlapSize = 0;
+    while (next - 1 > first && overlapSize + measure(units[next - 1]) <= settings.overlap) {
+      next--;
+      overlapSize += measure(units[next]);
+    }
+    first = next;
+  }
+
+  return chunks.filter((chunk) => chunk.end > chunk.start);
+}
+
+// Sentence and line units, so chunks end at sentence ends, paragraph breaks or
+// table rows instead of mid-word
+function splitIntoUnits(text: string, start: number, end: number) {
+  const units: Span[] = [];
+  const boundary = /[.!?]["')\]]*\s+|\n+/g;
+  boundary.lastIndex = start;
+
+  let unitStart = start;
+  let match;
+  while ((match = boundary.exec(text)) && match.index < end) {
+    const unitEnd = Math.min(match.index + match[0].length, end);
+    if (text.slice(unitStart, unitEnd).trim()) {
+      units.push({ start: unitStart, end: unitEnd });
+    }
+    unitStart = unitEnd;
+  }
+  if (unitStart < end && text.slice(unitStart, end).trim()) {
+    units.push({ start: unitStart, end });
+  }
+
+  return units;
+}
+
+function splitIntoWords(text: string) {
+  return [...text.matchAll(/\S+\s*/g)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+// Rough model-agnostic token count: words and punctuation marks
+function countTokens(text: string) {
+  return text.match(/\w+|[^\w\s]/g)?.length ?? 0;
+}
+
+function spanLength(span: Span) {
+  return span.end - span.start;
+}
+
+function trimSpan(text: string, span: Span) {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+)$/;
+// Policy-style clause numbers such as "4", "4.2" or "4.2.1", followed by a title or clause text
+const CLAUSE_HEADING = /^((?:\d+\.)*\d+)\.?\s+([A-Z(].*)$/;
+const NAMED_HEADING = /^(?:section|article|chapter|part|schedule|annexure|clause)\s+[\dIVXLC]+\b.*$/i;
+
+// Finds headings in plain text (including text extracted from PDFs)
+function detectHeadings(text: string) {
+  const headings: Infer<typeof headingValidator>[] = [];
+  const line = /^[^\n]*$/gm;
+
+  let match;
+  while ((match = line.exec(text))) {
+    if (match[0].length === 0) {
+      line.lastIndex++;
+      continue;
+    }
+
+    const trimmed = match[0].trim();
+    const startIndex = match.index + match[0].indexOf(trimmed);
+
+    const markdown = trimmed.match(MARKDOWN_HEADING);
+    const clause = trimmed.match(CLAUSE_HEADING);
+    if (markdown) {
+      headings.push({ level: markdown[1].length, text: markdown[2].trim(), startIndex });
+    } else if (clause) {
+      // Clause text can run on after the clause title; keep the title only
+      const title = clause[2].split(/[:.](?:\s|$)/)[0].slice(0, 80).trim();
+      headings.push({ level: clause[1].split(".").length, text: `${clause[1]} ${title}`, startIndex });
+    } else if (NAMED_HEADING.test(trimmed) && trimmed.length <= 100) {
+      headings.push({ level: 1, text: trimmed, startIndex });
+    } else if (trimmed.length >= 3 && trimmed.length <= 80 && /[A-Z]{3}/.test(trimmed) && trimmed === trimmed.toUpperCase() && !/[.,;]$/.test(trimmed)) {
+      headings.push({ level: 1, text: trimmed, startIndex });
+    }
+  }
+
+  return headings;
+}
+
+// Turns a flat list of headings into the heading path in effect from each one onwards
+function buildSections(headings: Infer<typeof headingValidator>[]) {
+  const sections: Section[] = [];
+  const stack: Array<{ level: number; text: string }> = [];
+
+  for (const heading of headings) {
+    while (stack.length && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+    sections.push({ startIndex: heading.startIndex, path: stack.map((entry) => entry.text) });
+  }
+
+  return sections;
+}
+
+// Text ranges between headings. A heading with no text of its own before the
+// next heading (e.g. "1. Definitions" directly followed by "1.1 ...") is kept
+// together with the section that follows it.
+function sectionRanges(text: string, sections: Section[]) {
+  const ranges: Span[] = [];
+  let start = 0;
+  let previous: Section | undefined;
+
+  for (const section of sections) {
+    const headingOnly = previous !== undefined &&
+      text.slice(previous.startIndex, section.startIndex).trim().length <= previous.path[previous.path.length - 1].length + 8;
+
+    if (section.startIndex > start && !headingOnly) {
+      ranges.push({ start, end: section.startIndex, sectionPath: previous?.path });
+      start = section.startIndex;
+    }
+    previous = section;
+  }
+  ranges.push({ start, end: text.length, sectionPath: previous?.path });
+
+  return ranges;
+}
+
+export function validateChunking(settings: ChunkingSettings) {
+  if (!Number.isInteger(settings.chunkSize) || settings.chunkSize <= 0) {
+    throw new Error("Chunk size must be a positive whole number");
+  }
+  if (!Number.isInteger(settings.overlap) || settings.overlap < 0 || settings.overlap >= settings.chunkSize) {
+    throw new Error("Chunk overlap must be a whole number smaller than the chunk size");
+  }
+}
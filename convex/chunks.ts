@@ -0,0 +1,111 @@
+import { v } from "convex/values";
+import { internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+
+// Keeps each mutation well within Convex's per-transaction write limits
+const DELETE_BATCH_SIZE = 200;
+
+export const insertChunks = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+    userId: v.id("users"),
+    chunks: v.array(v.object({
+      chunkIndex: v.number(),
+      content: v.string(),
+      startIndex: v.number(),
+      endIndex: v.number(),
+      pageNumber: v.optional(v.number()),
+      sectionPath: v.optional(v.array(v.string())),
+    })),
+  },
+  handler: async (ctx, args) => {
+    // The document may have been deleted while it was being processed
+    if (!(await getProcessingDocument(ctx, args.documentId, args.run))) {
+      return [];
+    }
+
+    const chunkIds = [];
+    for (const chunk of args.chunks) {
+      chunkIds.push(await ctx.db.insert("chunks", {
+        documentId: args.documentId,
+        userId: args.userId,
+        ...chunk,
+      }));
+    }
+    return chunkIds;
+  },
+});
+
+// Deletes one batch of a document's chunks before it is re-chunked.
+// Returns whether any chunks remain.
+export const clearDocumentChunks = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await getProcessingDocument(ctx, args.documentId, args.run);
+    return await deleteChunkBatch(ctx, args.documentId);
+  },
+});
+
+// Cascade for deleted documents, rescheduling itself until every chunk is gone
+export const deleteDocumentChunks = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+  },
+  handler: async (ctx, args) => {
+    if (await deleteChunkBatch(ctx, args.documentId)) {
+      await ctx.scheduler.runAfter(0, internal.chunks.deleteDocumentChunks, args);
+    }
+  },
+});
+
+export async function getDocumentChunks(ctx: QueryCtx, documentId: Id<"documents">) {
+  return await ctx.db
+    .query("chunks")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .collect();
+}
+
+// For the mutations `processDocument` makes: the document, or null once it is
+// deleted. Throws when processing was restarted after run `run` was queued,
+// which ends the stale run without writing over the new one.
+export async function getProcessingDocument(
+  ctx: QueryCtx,
+  documentId: Id<"documents">,
+  run: number | undefined,
+) {
+  const document = await ctx.db.get(documentId);
+  if (document && !isCurrentRun(document, run)) {
+    throw new Error("Processing was restarted");
+  }
+  return document;
+}
+
+// Documents queued before runs were counted, and their runs, count as run 0
+export function isCurrentRun(document: Doc<"documents">, run: number | undefined) {
+  return (document.processingRun ?? 0) === (run ?? 0);
+}
+
+async function deleteChunkBatch(ctx: MutationCtx, documentId: Id<"documents">) {
+  const chunks = await ctx.db
+    .query("chunks")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .take(DELETE_BATCH_SIZE);
+
+  for (const chunk of chunks) {
+    const embedding = await ctx.db
+      .query("chunkEmbeddings")
+      .withIndex("by_chunk", (q) => q.eq("chunkId", chunk._id))
+      .unique();
+    if (embedding) {
+      await ctx.db.delete(embedding._id);
+    }
+    await ctx.db.delete(chunk._id);
+  }
+
+  return chunks.length === DELETE_BATCH_SIZE;
+}
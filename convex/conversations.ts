@@ -0,0 +1,102 @@
+import { v } from "convex/values";
+import { query, mutation, internalQuery } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { getWorkspaceAccess } from "./workspaces";
+
+export const listConversations = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("conversations")
+      .withIndex("by_user_workspace_and_updated", (q) =>
+        q.eq("userId", access.userId).eq("workspaceId", args.workspaceId)
+      )
+      .order("desc")
+      .take(50);
+  },
+});
+
+export const getConversation = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== userId) {
+      return null;
+    }
+
+    const turns = await ctx.db
+      .query("queries")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .order("asc")
+      .collect();
+
+    return { ...conversation, turns };
+  },
+});
+
+export const deleteConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation || conversation.userId !== userId) {
+      throw new Error("Conversation not found or unauthorized");
+    }
+
+    // Turns stay in the query history, detached from the conversation
+    const turns = await ctx.db
+      .query("queries")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .collect();
+    for (const turn of turns) {
+      await ctx.db.patch(turn._id, { conversationId: undefined });
+    }
+
+    await ctx.db.delete(args.conversationId);
+  },
+});
+
+// Completed turns before the given one, oldest first
+export const getPriorTurns = internalQuery({
+  args: {
+    queryId: v.id("queries"),
+  },
+  handler: async (ctx, args) => {
+    const current = await ctx.db.get(args.queryId);
+    if (!current?.conversationId) {
+      return [];
+    }
+
+    const turns = await ctx.db
+      .query("queries")
+      .withIndex("by_conversation", (q) =>
+        q.eq("conversationId", current.conversationId).lt("_creationTime", current._creationTime)
+      )
+      .order("asc")
+      .collect();
+
+    return turns
+      .filter((turn) => !turn.status || turn.status === "complete")
+      .map((turn) => ({ question: turn.query, answer: turn.response }));
+  },
+});
@@ -0,0 +1,96 @@
+export type DiffHunk =
+  | { type: "equal" | "added" | "removed"; lines: string[] }
+  // Unchanged lines left out between changes
+  | { type: "skipped"; count: number };
+
+// Beyond this many line pairs the changed region is shown as removed and
+// re-added in full instead of being aligned line by line
+const MAX_DIFF_CELLS = 2_000_000;
+
+// Line-based diff of two texts, keeping `context` unchanged lines around each change
+export function diffLines(before: string, after: string, context = 3): DiffHunk[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: Array<{ type: "equal" | "added" | "removed"; line: string }> = [
+    ...a.slice(0, prefix).map((line) => ({ type: "equal" as const, line })),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((line) => ({ type: "equal" as const, line })),
+  ];
+
+  if (ops.every((op) => op.type === "equal")) {
+    return [];
+  }
+
+  const hunks: DiffHunk[] = [];
+  for (const op of ops) {
+    const last = hunks[hunks.length - 1];
+    if (last && last.type === op.type) {
+      last.lines.push(op.line);
+    } else {
+      hunks.push({ type: op.type, lines: [op.line] });
+    }
+  }
+
+  return hunks.flatMap((hunk, index): DiffHunk[] => {
+    if (hunk.type !== "equal") return [hunk];
+
+    const keepBefore = index > 0 ? context : 0;
+    const keepAfter = index < hunks.length - 1 ? context : 0;
+    if (hunk.lines.length <= keepBefore + keepAfter + 1) return [hunk];
+
+    return [
+      ...(keepBefore > 0 ? [{ type: "equal" as const, lines: hunk.lines.slice(0, keepBefore) }] : []),
+      { type: "skipped" as const, count: hunk.lines.length - keepBefore - keepAfter },
+      ...(keepAfter > 0 ? [{ type: "equal" as const, lines: hunk.lines.slice(hunk.lines.length - keepAfter) }] : []),
+    ];
+  });
+}
+
+// Aligns the changed region with a longest common subsequence of its lines
+function diffMiddle(a: string[], b: string[]) {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((line) => ({ type: "removed" as const, line })),
+      ...b.map((line) => ({ type: "added" as const, line })),
+    ];
+  }
+
+  // lcs[i * (b.length + 1) + j] is the LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: "equal" | "added" | "removed"; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: "equal", line: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ type: "removed", line: a[i] });
+      i++;
+    } else {
+      ops.push({ type: "added", line: b[j] });
+      j++;
+    }
+  }
+  return ops;
+}
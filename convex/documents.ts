@@ -1,7 +1,30 @@
 import { v } from "convex/values";
-import { mutation, query, action, internalAction, internalQuery, internalMutation } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query, internalAction, internalQuery, internalMutation, MutationCtx, QueryCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { api, internal } from "./_generated/api";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { chunkingValidator, documentStatusValidator, headingValidator, pageValidator } from "./schema";
+import { invalidateCachedAnswers } from "./answerCache";
+import { chunkDocument, validateChunking } from "./chunking";
+import { getProcessingDocument, isCurrentRun } from "./chunks";
+import { getLlmProvider } from "./llm";
+import { findSettings } from "./settings";
+import { diffLines } from "./diff";
+import { extractDocument } from "./extraction";
+import { requireRateLimit } from "./rateLimits";
+import { getDocumentAccess, getWorkspaceAccess, requireDocumentAccess, requireWorkspaceAccess } from "./workspaces";
+
+const CHUNK_BATCH_SIZE = 100;
+// Keeps each insert mutation's arguments small, since every embedding is 1536 floats
+const EMBEDDING_BATCH_SIZE = 50;
+const MAX_PROCESSING_ATTEMPTS = 3;
+// Characters of surrounding text shown on each side of a cited span
+const EXCERPT_CONTEXT_CHARS = 300;
+const RETRY_BASE_DELAY_MS = 30_000;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MIGRATION_BATCH_SIZE = 50;
 
 export const generateUploadUrl = mutation({
   args: {},
@@ -10,160 +33,768 @@ export const generateUploadUrl = mutation({
     if (!userId) {
       throw new Error("Not authenticated");
     }
+    await requireRateLimit(ctx, userId, "upload");
     return await ctx.storage.generateUploadUrl();
   },
 });
 
 export const saveDocument = mutation({
   args: {
+    workspaceId: v.id("workspaces"),
     title: v.string(),
-    content: v.string(),
+    // Only needed for documents without a stored file; otherwise the text is
+    // extracted from the file when the document is processed
+    content: v.optional(v.string()),
     fileType: v.string(),
     fileSize: v.number(),
     storageId: v.optional(v.id("_storage")),
+    chunking: v.optional(chunkingValidator),
+    // Uploads the file as a new version of this document
+    previousVersionId: v.optional(v.id("documents")),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Not authenticated");
+    const { userId } = await requireWorkspaceAccess(ctx, args.workspaceId, "editor");
+
+    const { workspaceId, previousVersionId, ...fields } = args;
+
+    const contentHash = args.storageId ? await getStoredFileHash(ctx, args.storageId) : undefined;
+    if (args.storageId && contentHash) {
+      // Link to the document that already has this file instead of adding a copy
+      const existing = await findDocumentByHash(ctx, workspaceId, contentHash);
+      if (existing) {
+        await ctx.storage.delete(args.storageId);
+        return { documentId: existing._id, duplicate: true };
+      }
     }
 
-    const documentId = await ctx.db.insert("documents", {
-      title: args.title,
-      content: args.content,
-      fileType: args.fileType,
-      fileSize: args.fileSize,
-      uploadedBy: userId,
-      storageId: args.storageId,
-    });
+    if (!previousVersionId) {
+      return {
+        documentId: await insertDocument(ctx, userId, workspaceId, { ...fields, contentHash }),
+        duplicate: false,
+      };
+    }
 
-    // Schedule document processing
-    await ctx.scheduler.runAfter(0, internal.documents.processDocument, {
-      documentId,
+    const { document: previous, workspaceId: previousWorkspaceId } =
+      await requireDocumentAccess(ctx, previousVersionId, "editor");
+    if (previousWorkspaceId !== workspaceId) {
+      throw new Error("Document not found or unauthorized");
+    }
+    if (previous.supersededBy) {
+      throw new Error("Only the latest version of a document can be replaced");
+    }
+
+    const documentId = await insertDocument(ctx, userId, workspaceId, {
+      ...fields,
+      contentHash,
+      chunking: args.chunking ?? previous.chunking,
+      tags: previous.tags,
+      version: (previous.version ?? 1) + 1,
+      versionOf: previous.versionOf ?? previous._id,
+      previousVersionId,
     });
+    return { documentId, duplicate: false };
+  },
+});
 
-    return documentId;
+// Saves a file stored by `ingest.storeDocument`, for URLs and uploads through
+// the HTTP API. If the workspace already has a file with the same content,
+// the new copy is discarded and the existing document is returned instead.
+export const saveStoredDocument = internalMutation({
+  args: {
+    userId: v.id("users"),
+    workspaceId: v.id("workspaces"),
+    title: v.string(),
+    fileType: v.string(),
+    fileSize: v.number(),
+    storageId: v.id("_storage"),
+    sourceUrl: v.optional(v.string()),
+    contentHash: v.string(),
+    chunking: v.optional(chunkingValidator),
+  },
+  handler: async (ctx, args) => {
+    const { userId, workspaceId, ...fields } = args;
+
+    const existing = await findDocumentByHash(ctx, workspaceId, args.contentHash);
+    if (existing) {
+      await ctx.storage.delete(args.storageId);
+      return { documentId: existing._id, duplicate: true };
+    }
+
+    return { documentId: await insertDocument(ctx, userId, workspaceId, fields), duplicate: false };
+  },
+});
+
+export const getDocumentByHash = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    contentHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    return await findDocumentByHash(ctx, args.workspaceId, args.contentHash);
   },
 });
 
 export const processDocument = internalAction({
   args: {
     documentId: v.id("documents"),
+    // The document's `processingRun` when this run was queued
+    run: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const document = await ctx.runQuery(internal.documents.getDocument, {
       documentId: args.documentId,
     });
 
+    // The document may have been deleted before processing ran
     if (!document) {
-      throw new Error("Document not found");
+      return;
     }
 
-    // Split document into chunks for better processing
-    const chunks = splitIntoChunks(document.content, 1000, 200);
-    
-    await ctx.runMutation(internal.documents.updateDocumentChunks, {
-      documentId: args.documentId,
-      chunks: chunks.map((chunk, index) => ({
-        id: `${args.documentId}-${index}`,
-        content: chunk.content,
-        startIndex: chunk.startIndex,
-        endIndex: chunk.endIndex,
-      })),
-    });
+    // Mutations already retry transient conflicts, so a failure here wouldn't
+    // go away on a retry either
+    try {
+      await ctx.runMutation(internal.documents.startProcessing, {
+        documentId: args.documentId,
+        run: args.run,
+      });
+    } catch (error: any) {
+      await ctx.runMutation(internal.documents.handleProcessingFailure, {
+        documentId: args.documentId,
+        run: args.run,
+        error: error.message || "Processing failed to start",
+        retryable: false,
+      });
+      return;
+    }
+
+    let content = document.content;
+    let pages = document.pages;
+    let outline = document.outline;
+
+    // Extract clean text from the stored file. A file that can't be parsed, or
+    // whose text is too large to store, won't succeed on a retry either, so
+    // extraction errors fail immediately.
+    if (document.storageId) {
+      let extracted;
+      try {
+        const blob = await ctx.storage.get(document.storageId);
+        if (!blob) {
+          throw new Error("Stored file not found");
+        }
+        extracted = await extractDocument(blob, document.fileType, document.title);
+
+        await ctx.runMutation(internal.documents.saveExtractedContent, {
+          documentId: args.documentId,
+          run: args.run,
+          ...extracted,
+        });
+      } catch (error: any) {
+        await ctx.runMutation(internal.documents.handleProcessingFailure, {
+          documentId: args.documentId,
+          run: args.run,
+          error: `Extraction failed: ${error.message || "could not read file"}`,
+          retryable: false,
+        });
+        return;
+      }
+
+      content = extracted.content;
+      pages = extracted.pages;
+      outline = extracted.outline;
+    }
+
+    try {
+      // Split document into chunks for better processing
+      await ctx.runMutation(internal.documents.updateProcessingStatus, {
+        documentId: args.documentId,
+        run: args.run,
+        status: "chunking",
+      });
+
+      const chunks = chunkDocument(args.documentId, content, {
+        pages,
+        outline,
+        chunking: document.chunking,
+      });
+
+      // Replace any chunks (and their embeddings) from a previous run
+      while (await ctx.runMutation(internal.chunks.clearDocumentChunks, { documentId: args.documentId, run: args.run })) {
+        // Keep deleting batches until none remain
+      }
+
+      const chunkIds: Id<"chunks">[] = [];
+      for (let i = 0; i < chunks.length; i += CHUNK_BATCH_SIZE) {
+        chunkIds.push(...await ctx.runMutation(internal.chunks.insertChunks, {
+          documentId: args.documentId,
+          run: args.run,
+          userId: document.uploadedBy,
+          chunks: chunks.slice(i, i + CHUNK_BATCH_SIZE).map((chunk, offset) => ({
+            chunkIndex: i + offset,
+            content: chunk.content,
+            startIndex: chunk.startIndex,
+            endIndex: chunk.endIndex,
+            pageNumber: chunk.pageNumber,
+            sectionPath: chunk.sectionPath,
+          })),
+        }));
+      }
+
+      await ctx.runMutation(internal.documents.recordChunkCount, {
+        documentId: args.documentId,
+        run: args.run,
+        chunkCount: chunks.length,
+      });
+
+      // Embed chunks for vector search
+      await ctx.runMutation(internal.documents.updateProcessingStatus, {
+        documentId: args.documentId,
+        run: args.run,
+        status: "embedding",
+        progress: 0,
+      });
+
+      const embeddingProvider = getLlmProvider();
+      for (let i = 0; i < chunkIds.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await embeddingProvider.embed(batch.map((chunk) => chunk.content));
+
+        await ctx.runMutation(internal.embeddings.insertChunkEmbeddings, {
+          documentId: args.documentId,
+          run: args.run,
+          embeddings: embeddings.map((embedding, offset) => ({
+            chunkId: chunkIds[i + offset],
+            embedding,
+          })),
+        });
+
+        await ctx.runMutation(internal.documents.updateProcessingStatus, {
+          documentId: args.documentId,
+          run: args.run,
+          status: "embedding",
+          progress: Math.min(i + EMBEDDING_BATCH_SIZE, chunks.length) / chunks.length,
+        });
+      }
+
+      await ctx.runMutation(internal.documents.updateProcessingStatus, {
+        documentId: args.documentId,
+        run: args.run,
+        status: "ready",
+      });
+    } catch (error: any) {
+      await ctx.runMutation(internal.documents.handleProcessingFailure, {
+        documentId: args.documentId,
+        run: args.run,
+        error: error.message || "Processing failed",
+        retryable: true,
+      });
+    }
   },
 });
 
+// Internal functions run without an auth identity (e.g. from the scheduler),
+// so access is checked by their public callers instead
 export const getDocument = internalQuery({
   args: {
     documentId: v.id("documents"),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      return null;
+    return await ctx.db.get(args.documentId);
+  },
+});
+
+export const startProcessing = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const document = await getProcessingDocument(ctx, args.documentId, args.run);
+    if (!document) {
+      return;
     }
 
+    await ctx.db.patch(args.documentId, {
+      status: "extracting",
+      progress: undefined,
+      processingError: undefined,
+      processingJobId: undefined,
+      attempts: (document.attempts ?? 0) + 1,
+    });
+  },
+});
+
+export const updateProcessingStatus = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+    status: documentStatusValidator,
+    progress: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const document = await getProcessingDocument(ctx, args.documentId, args.run);
+    if (!document) {
+      return;
+    }
+
+    await ctx.db.patch(args.documentId, {
+      status: args.status,
+      progress: args.progress,
+      ...(args.status === "ready" && { processedAt: Date.now() }),
+    });
+
+    // A new version only replaces the previous one in searches once it is ready
+    if (args.status === "ready" && document.previousVersionId) {
+      const previous = await ctx.db.get(document.previousVersionId);
+      if (previous && !previous.supersededBy) {
+        await ctx.db.patch(previous._id, { supersededBy: document._id });
+        await invalidateCachedAnswers(ctx, previous._id);
+      }
+    }
+  },
+});
+
+export const handleProcessingFailure = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+    error: v.string(),
+    retryable: v.boolean(),
+  },
+  handler: async (ctx, args) => {
     const document = await ctx.db.get(args.documentId);
-    if (!document || document.uploadedBy !== userId) {
-      return null;
+    // A restarted run reports its own failures
+    if (!document || !isCurrentRun(document, args.run)) {
+      return;
+    }
+
+    const attempts = document.attempts ?? 1;
+    if (!args.retryable || attempts >= MAX_PROCESSING_ATTEMPTS) {
+      await ctx.db.patch(args.documentId, {
+        status: "failed",
+        progress: undefined,
+        processingError: args.error,
+      });
+      return;
+    }
+
+    // Retry with exponential backoff: 30s, 60s, ...
+    const processingJobId = await ctx.scheduler.runAfter(
+      RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+      internal.documents.processDocument,
+      { documentId: args.documentId, run: args.run },
+    );
+
+    await ctx.db.patch(args.documentId, {
+      status: "queued",
+      progress: undefined,
+      processingError: args.error,
+      processingJobId,
+    });
+  },
+});
+
+export const reprocessDocument = mutation({
+  args: {
+    documentId: v.id("documents"),
+    // Replaces the document's chunking settings when given
+    chunking: v.optional(chunkingValidator),
+  },
+  handler: async (ctx, args) => {
+    const { document } = await requireDocumentAccess(ctx, args.documentId, "editor");
+
+    if (args.chunking) {
+      validateChunking(args.chunking);
+      await ctx.db.patch(args.documentId, { chunking: args.chunking });
     }
 
-    return document;
+    await queueProcessing(ctx, document);
   },
 });
 
-export const updateDocumentChunks = internalMutation({
+export const updateDocumentTags = mutation({
   args: {
     documentId: v.id("documents"),
-    chunks: v.array(v.object({
-      id: v.string(),
-      content: v.string(),
-      startIndex: v.number(),
-      endIndex: v.number(),
-    })),
+    tags: v.array(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireDocumentAccess(ctx, args.documentId, "editor");
+
+    // Tags are matched case-insensitively, so store them lowercased
+    const tags = [...new Set(args.tags.map((tag) => tag.trim().replace(/\s+/g, " ").toLowerCase()))]
+      .filter(Boolean);
+    if (tags.length > MAX_TAGS) {
+      throw new Error(`A document can have at most ${MAX_TAGS} tags`);
+    }
+    if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      throw new Error(`Tags can be at most ${MAX_TAG_LENGTH} characters long`);
+    }
+
+    await ctx.db.patch(args.documentId, { tags });
+  },
+});
+
+export const saveExtractedContent = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+    content: v.string(),
+    pages: v.optional(v.array(pageValidator)),
+    outline: v.optional(v.array(headingValidator)),
+  },
+  handler: async (ctx, args) => {
+    if (!await getProcessingDocument(ctx, args.documentId, args.run)) {
+      return;
+    }
+
     await ctx.db.patch(args.documentId, {
-      chunks: args.chunks,
-      processedAt: Date.now(),
+      content: args.content,
+      pages: args.pages,
+      outline: args.outline,
     });
   },
 });
 
+export const recordChunkCount = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+    chunkCount: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (!await getProcessingDocument(ctx, args.documentId, args.run)) {
+      return;
+    }
+
+    await ctx.db.patch(args.documentId, {
+      chunkCount: args.chunkCount,
+      chunks: undefined,
+    });
+  },
+});
+
+// Queues processing again for documents that were processed before chunks
+// were embedded or moved into the `chunks` table, since neither vector nor
+// keyword search can find them. Run once with
+//   npx convex run documents:reprocessLegacyDocuments
+export const reprocessLegacyDocuments = internalMutation({
+  args: {
+    paginationOpts: v.optional(paginationOptsValidator),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("documents")
+      .paginate(args.paginationOpts ?? { numItems: MIGRATION_BATCH_SIZE, cursor: null });
+
+    for (const document of page.page) {
+      const processed = document.status === "ready" || (!document.status && document.processedAt !== undefined);
+      // Documents without any text have nothing to embed
+      if (!processed || document.chunkCount === 0) continue;
+
+      const embedding = await ctx.db
+        .query("chunkEmbeddings")
+        .withIndex("by_document", (q) => q.eq("documentId", document._id))
+        .first();
+      // Inline chunks are cleared once a document's chunks are stored in the table
+      if (!embedding || document.chunks !== undefined) {
+        await queueProcessing(ctx, document);
+      }
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.documents.reprocessLegacyDocuments, {
+        paginationOpts: { numItems: MIGRATION_BATCH_SIZE, cursor: page.continueCursor },
+      });
+    }
+  },
+});
+
 export const listDocuments = query({
-  args: {},
-  handler: async (ctx) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
       return [];
     }
 
-    return await ctx.db
+    const documents = await ctx.db
       .query("documents")
-      .withIndex("by_user", (q) => q.eq("uploadedBy", userId))
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
       .order("desc")
       .collect();
+
+    return documents.map(toDocumentSummary);
   },
 });
 
-export const deleteDocument = mutation({
+// A page of `listDocuments`, newest first, for the HTTP API
+export const listDocumentsPage = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("documents")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return { ...page, page: page.page.map(toDocumentSummary) };
+  },
+});
+
+// Takes the id as a string from the HTTP API; null unless it is a document
+// in the workspace
+export const getDocumentSummary = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    documentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const document = await findWorkspaceDocument(ctx, args.workspaceId, args.documentId);
+    return document && toDocumentSummary(document);
+  },
+});
+
+// The text around a cited span, so it can be shown highlighted in context
+export const getSourceExcerpt = query({
   args: {
     documentId: v.id("documents"),
+    startIndex: v.number(),
+    endIndex: v.number(),
   },
   handler: async (ctx, args) => {
-    const userId = await getAuthUserId(ctx);
-    if (!userId) {
-      throw new Error("Not authenticated");
+    const access = await getDocumentAccess(ctx, args.documentId);
+    if (!access) {
+      return null;
     }
 
-    const document = await ctx.db.get(args.documentId);
-    if (!document || document.uploadedBy !== userId) {
-      throw new Error("Document not found or unauthorized");
+    const { document } = access;
+    const contextStart = Math.max(0, args.startIndex - EXCERPT_CONTEXT_CHARS);
+    const contextEnd = Math.min(document.content.length, args.endIndex + EXCERPT_CONTEXT_CHARS);
+
+    return {
+      before: document.content.slice(contextStart, args.startIndex),
+      span: document.content.slice(args.startIndex, args.endIndex),
+      after: document.content.slice(args.endIndex, contextEnd),
+      truncatedStart: contextStart > 0,
+      truncatedEnd: contextEnd < document.content.length,
+    };
+  },
+});
+
+// Line diff between a document version and the version before it
+export const getVersionDiff = query({
+  args: {
+    documentId: v.id("documents"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getDocumentAccess(ctx, args.documentId);
+    if (!access) {
+      return null;
+    }
+
+    const { document } = access;
+    if (!document.previousVersionId) {
+      return null;
+    }
+    const previous = await ctx.db.get(document.previousVersionId);
+    if (!previous) {
+      return null;
     }
 
-    await ctx.db.delete(args.documentId);
+    return {
+      version: document.version ?? 1,
+      previousVersion: previous.version ?? 1,
+      hunks: diffLines(previous.content, document.content),
+    };
   },
 });
 
-// Helper function to split text into overlapping chunks
-function splitIntoChunks(text: string, chunkSize: number, overlap: number) {
-  const chunks = [];
-  let startIndex = 0;
+export const hasDocuments = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db
+      .query("documents")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .first();
 
-  while (startIndex < text.length) {
-    const endIndex = Math.min(startIndex + chunkSize, text.length);
-    const content = text.slice(startIndex, endIndex);
-    
-    chunks.push({
-      content,
-      startIndex,
-      endIndex,
-    });
+    return document !== null;
+  },
+});
+
+export const deleteDocument = mutation({
+  args: {
+    documentId: v.id("documents"),
+  },
+  handler: async (ctx, args) => {
+    const { document } = await requireDocumentAccess(ctx, args.documentId, "editor");
+    await removeDocument(ctx, document);
+  },
+});
+
+// `deleteDocument` for the HTTP API. Returns whether the document existed.
+export const deleteWorkspaceDocument = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    documentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const document = await findWorkspaceDocument(ctx, args.workspaceId, args.documentId);
+    if (!document) {
+      return false;
+    }
+
+    await removeDocument(ctx, document);
+    return true;
+  },
+});
+
+async function removeDocument(ctx: MutationCtx, document: Doc<"documents">) {
+  if (document.processingJobId) {
+    await ctx.scheduler.cancel(document.processingJobId);
+  }
+  if (document.storageId) {
+    await ctx.storage.delete(document.storageId);
+  }
+  await ctx.db.delete(document._id);
+  await invalidateCachedAnswers(ctx, document._id);
 
-    if (endIndex === text.length) break;
-    startIndex = endIndex - overlap;
+  // Deleting the latest version makes the one before it current again
+  if (document.previousVersionId) {
+    const previous = await ctx.db.get(document.previousVersionId);
+    if (previous?.supersededBy === document._id) {
+      await ctx.db.patch(previous._id, { supersededBy: undefined });
+    }
   }
 
-  return chunks;
+  // Chunks and embeddings can be numerous, so they are deleted in batches
+  await ctx.scheduler.runAfter(0, internal.chunks.deleteDocumentChunks, {
+    documentId: document._id,
+  });
+}
+
+export type DocumentSummary = ReturnType<typeof toDocumentSummary>;
+
+// Lightweight summary for listings; chunk text stays on the server
+function toDocumentSummary(document: Doc<"documents">) {
+  return {
+    _id: document._id,
+    _creationTime: document._creationTime,
+    title: document.title,
+    fileType: document.fileType,
+    fileSize: document.fileSize,
+    status: document.status,
+    progress: document.progress,
+    processingError: document.processingError,
+    attempts: document.attempts,
+    processedAt: document.processedAt,
+    chunking: document.chunking,
+    chunkCount: document.chunkCount ?? document.chunks?.length,
+    pageCount: document.pages?.length,
+    headingCount: document.outline?.length,
+    tags: document.tags ?? [],
+    sourceUrl: document.sourceUrl,
+    version: document.version ?? 1,
+    versionOf: document.versionOf,
+    previousVersionId: document.previousVersionId,
+    supersededBy: document.supersededBy,
+  };
+}
+
+async function findWorkspaceDocument(ctx: QueryCtx, workspaceId: Id<"workspaces">, id: string) {
+  const documentId = ctx.db.normalizeId("documents", id);
+  const document = documentId && await ctx.db.get(documentId);
+  return document && document.workspaceId === workspaceId ? document : null;
+}
+
+async function insertDocument(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces">,
+  fields: {
+    title: string;
+    content?: string;
+    fileType: string;
+    fileSize: number;
+    storageId?: Id<"_storage">;
+    chunking?: Doc<"documents">["chunking"];
+    sourceUrl?: string;
+    contentHash?: string;
+    tags?: string[];
+    version?: number;
+    versionOf?: Id<"documents">;
+    previousVersionId?: Id<"documents">;
+  },
+) {
+  if (fields.chunking) {
+    validateChunking(fields.chunking);
+  }
+
+  const documentId = await ctx.db.insert("documents", {
+    ...fields,
+    content: fields.content ?? "",
+    uploadedBy: userId,
+    workspaceId,
+    // Fall back to the workspace's default chunking settings
+    chunking: fields.chunking ?? (await findSettings(ctx, workspaceId))?.chunking,
+    status: "queued",
+    attempts: 0,
+  });
+
+  // Schedule document processing
+  const processingJobId = await ctx.scheduler.runAfter(0, internal.documents.processDocument, {
+    documentId,
+  });
+  await ctx.db.patch(documentId, { processingJobId });
+
+  return documentId;
+}
+
+// The SHA-256 `_storage` keeps for every file, as hex like `sha256Hex`
+async function getStoredFileHash(ctx: QueryCtx, storageId: Id<"_storage">) {
+  const file = await ctx.db.system.get(storageId);
+  if (!file) {
+    return undefined;
+  }
+  if (/^[0-9a-f]{64}$/i.test(file.sha256)) {
+    return file.sha256.toLowerCase();
+  }
+  return Array.from(atob(file.sha256), (char) => char.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+}
+
+async function findDocumentByHash(ctx: QueryCtx, workspaceId: Id<"workspaces">, contentHash: string) {
+  return await ctx.db
+    .query("documents")
+    .withIndex("by_workspace_and_hash", (q) => q.eq("workspaceId", workspaceId).eq("contentHash", contentHash))
+    .first();
+}
+
+// Starts processing over from the first attempt, cancelling any pending retry.
+// A run that already started can't be cancelled, so it is made stale instead
+// and stops at its next write.
+async function queueProcessing(ctx: MutationCtx, document: Doc<"documents">) {
+  if (document.processingJobId) {
+    await ctx.scheduler.cancel(document.processingJobId);
+  }
+
+  const processingRun = (document.processingRun ?? 0) + 1;
+  const processingJobId = await ctx.scheduler.runAfter(0, internal.documents.processDocument, {
+    documentId: document._id,
+    run: processingRun,
+  });
+
+  await ctx.db.patch(document._id, {
+    status: "queued",
+    progress: undefined,
+    processingError: undefined,
+    attempts: 0,
+    processingJobId,
+    processingRun,
+  });
+  await invalidateCachedAnswers(ctx, document._id);
 }
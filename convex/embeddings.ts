@@ -0,0 +1,166 @@
+import { v, Infer } from "convex/values";
+import { internalMutation, internalQuery } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getProcessingDocument } from "./chunks";
+import { tokenUsageValidator } from "./schema";
+import OpenAI from "openai";
+
+// Must match the dimensions of the `by_embedding` vector index in schema.ts
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  // `onUsage` is told the tokens used, when the model reports them
+  embed(texts: string[], onUsage?: (usage: Infer<typeof tokenUsageValidator>) => void): Promise<number[][]>;
+  // Cosine similarity a passage needs to count as evidence for a question.
+  // Depends on the model, since each one spreads its scores differently.
+  minEvidenceScore: number;
+}
+
+// Picks the provider from EMBEDDING_PROVIDER ("openai" by default, or "local")
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (process.env.EMBEDDING_PROVIDER === "local") {
+    return createLocalEmbeddingProvider();
+  }
+  return createOpenAIEmbeddingProvider();
+}
+
+export function createOpenAIEmbeddingProvider(model = "text-embedding-3-small"): EmbeddingProvider {
+  const openai = new OpenAI({
+    baseURL: process.env.CONVEX_OPENAI_BASE_URL,
+    apiKey: process.env.CONVEX_OPENAI_API_KEY,
+  });
+
+  return {
+    minEvidenceScore: 0.3,
+
+    async embed(texts, onUsage) {
+      const embeddings: number[][] = [];
+      // Keep each request well under the API's input limit
+      for (let i = 0; i < texts.length; i += 100) {
+        const response = await openai.embeddings.create({
+          model,
+          input: texts.slice(i, i + 100),
+          dimensions: EMBEDDING_DIMENSIONS,
+        });
+        embeddings.push(...response.data.map((item) => item.embedding));
+        onUsage?.({ promptTokens: response.usage.prompt_tokens, completionTokens: 0 });
+      }
+      return embeddings;
+    },
+  };
+}
+
+// Deterministic hashed bag-of-words embedder that needs no network access,
+// for tests and local development
+export function createLocalEmbeddingProvider(): EmbeddingProvider {
+  return {
+    // Shared common words alone give unrelated texts a small similarity
+    minEvidenceScore: 0.15,
+
+    async embed(texts) {
+      return texts.map((text) => {
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+        for (const word of words) {
+          const hash = fnv1a(word);
+          vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+        }
+        return normalize(vector);
+      });
+    },
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export const insertChunkEmbeddings = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    run: v.optional(v.number()),
+    embeddings: v.array(v.object({
+      chunkId: v.id("chunks"),
+      embedding: v.array(v.float64()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    // Read here rather than passed in, in case the document moved into a
+    // workspace while it was being processed
+    const document = await getProcessingDocument(ctx, args.documentId, args.run);
+    if (!document) {
+      return;
+    }
+
+    for (const { chunkId, embedding } of args.embeddings) {
+      // Skip chunks deleted while they were being embedded
+      if (!(await ctx.db.get(chunkId))) continue;
+
+      await ctx.db.insert("chunkEmbeddings", {
+        chunkId,
+        documentId: args.documentId,
+        userId: document.uploadedBy,
+        workspaceId: document.workspaceId,
+        embedding,
+      });
+    }
+  },
+});
+
+// The chunks behind vector search results, in the order given. Results from
+// documents outside `documentIds` are skipped when it is set, and results
+// from superseded document versions when `latestOnly` is.
+export const getEmbeddedChunks = internalQuery({
+  args: {
+    ids: v.array(v.id("chunkEmbeddings")),
+    documentIds: v.optional(v.array(v.id("documents"))),
+    latestOnly: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const inScope = args.documentIds && new Set(args.documentIds);
+    const documents = new Map<Id<"documents">, Doc<"documents"> | null>();
+
+    const chunks = [];
+    for (const id of args.ids) {
+      if (args.limit !== undefined && chunks.length >= args.limit) break;
+
+      const embedding = await ctx.db.get(id);
+      if (!embedding || (inScope && !inScope.has(embedding.documentId))) continue;
+
+      if (!documents.has(embedding.documentId)) {
+        documents.set(embedding.documentId, await ctx.db.get(embedding.documentId));
+      }
+      const document = documents.get(embedding.documentId);
+      if (!document || (args.latestOnly && document.supersededBy)) continue;
+
+      const chunk = await ctx.db.get(embedding.chunkId);
+      if (!chunk) continue;
+
+      chunks.push({ ...chunk, embeddingId: embedding._id, documentTitle: document.title });
+    }
+    return chunks;
+  },
+});
+
+function fnv1a(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]) {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map((value) => value / norm) : vector;
+}
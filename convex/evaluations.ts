@@ -0,0 +1,646 @@
+import { v, Infer } from "convex/values";
+import { query, mutation, internalAction, internalQuery, internalMutation, ActionCtx, MutationCtx, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { evaluationMetricsValidator, evaluationResultValidator, expectedSourceValidator, Source } from "./schema";
+import { answerQuery } from "./queries";
+import { MAX_SOURCES } from "./retrieval";
+import { DEFAULT_MODEL_SETTINGS, findSettings } from "./settings";
+import { requireQuota } from "./usage";
+import { getWorkspaceAccess, requireWorkspaceAccess, WorkspaceRole } from "./workspaces";
+
+type EvaluationResult = Infer<typeof evaluationResultValidator>;
+type EvaluationMetrics = Infer<typeof evaluationMetricsValidator>;
+type ExpectedSource = Infer<typeof expectedSourceValidator>;
+
+const MAX_GOLDEN_SET_NAME_LENGTH = 60;
+const MAX_GOLDEN_QUESTIONS = 200;
+const ARTICLES = new Set(["a", "an", "the"]);
+
+export const listGoldenSets = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
+      return [];
+    }
+
+    const goldenSets = await ctx.db
+      .query("goldenSets")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+
+    return await Promise.all(goldenSets.map(async (goldenSet) => {
+      const questions = await ctx.db
+        .query("goldenQuestions")
+        .withIndex("by_golden_set", (q) => q.eq("goldenSetId", goldenSet._id))
+        .collect();
+      const latestRun = await ctx.db
+        .query("evaluationRuns")
+        .withIndex("by_golden_set", (q) => q.eq("goldenSetId", goldenSet._id))
+        .order("desc")
+        .first();
+
+      return {
+        _id: goldenSet._id,
+        name: goldenSet.name,
+        questionCount: questions.length,
+        latestRun: latestRun && { status: latestRun.status, metrics: latestRun.metrics, k: latestRun.k },
+      };
+    }));
+  },
+});
+
+export const createGoldenSet = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireWorkspaceAccess(ctx, args.workspaceId, "editor");
+
+    return await ctx.db.insert("goldenSets", {
+      workspaceId: args.workspaceId,
+      name: validateGoldenSetName(args.name),
+      createdBy: userId,
+    });
+  },
+});
+
+// Deletes the set along with its questions, past runs and their results
+export const deleteGoldenSet = mutation({
+  args: {
+    goldenSetId: v.id("goldenSets"),
+  },
+  handler: async (ctx, args) => {
+    await requireGoldenSetAccess(ctx, args.goldenSetId, "editor");
+
+    const questions = await ctx.db
+      .query("goldenQuestions")
+      .withIndex("by_golden_set", (q) => q.eq("goldenSetId", args.goldenSetId))
+      .collect();
+    const runs = await ctx.db
+      .query("evaluationRuns")
+      .withIndex("by_golden_set", (q) => q.eq("goldenSetId", args.goldenSetId))
+      .collect();
+    for (const run of runs) {
+      await deleteRunResults(ctx, run._id);
+    }
+    for (const record of [...questions, ...runs]) {
+      await ctx.db.delete(record._id);
+    }
+    await ctx.db.delete(args.goldenSetId);
+  },
+});
+
+export const listGoldenQuestions = query({
+  args: {
+    goldenSetId: v.id("goldenSets"),
+  },
+  handler: async (ctx, args) => {
+    const goldenSet = await ctx.db.get(args.goldenSetId);
+    if (!goldenSet || !await getWorkspaceAccess(ctx, goldenSet.workspaceId)) {
+      return [];
+    }
+
+    const questions = await ctx.db
+      .query("goldenQuestions")
+      .withIndex("by_golden_set", (q) => q.eq("goldenSetId", args.goldenSetId))
+      .collect();
+
+    return await Promise.all(questions.map(async (question) => {
+      const document = question.expectedSource && await ctx.db.get(question.expectedSource.documentId);
+      return {
+        ...question,
+        expectedSourceTitle: document?.title,
+        expectedSourceText: question.expectedSource && document?.content.slice(
+          question.expectedSource.startIndex,
+          question.expectedSource.endIndex,
+        ),
+      };
+    }));
+  },
+});
+
+// The expected source is given as a passage quoted from the document, which
+// is located in the document's extracted text
+export const addGoldenQuestion = mutation({
+  args: {
+    goldenSetId: v.id("goldenSets"),
+    question: v.string(),
+    expectedAnswer: v.optional(v.string()),
+    expectedSource: v.optional(v.object({
+      documentId: v.id("documents"),
+      text: v.string(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const { goldenSet } = await requireGoldenSetAccess(ctx, args.goldenSetId, "editor");
+
+    let expectedSource: ExpectedSource | undefined;
+    if (args.expectedSource) {
+      const document = await ctx.db.get(args.expectedSource.documentId);
+      if (!document || document.workspaceId !== goldenSet.workspaceId) {
+        throw new Error("Document not found or unauthorized");
+      }
+      const text = args.expectedSource.text.trim();
+      let startIndex = document.content.indexOf(text);
+      if (startIndex < 0) {
+        startIndex = document.content.toLowerCase().indexOf(text.toLowerCase());
+      }
+      if (!text || startIndex < 0) {
+        throw new Error("The expected source passage wasn't found in the document's text");
+      }
+      expectedSource = { documentId: document._id, startIndex, endIndex: startIndex + text.length };
+    }
+
+    return await insertGoldenQuestion(ctx, goldenSet._id, {
+      question: args.question,
+      expectedAnswer: args.expectedAnswer,
+      expectedSource,
+    });
+  },
+});
+
+export const deleteGoldenQuestion = mutation({
+  args: {
+    questionId: v.id("goldenQuestions"),
+  },
+  handler: async (ctx, args) => {
+    const question = await ctx.db.get(args.questionId);
+    if (!question) {
+      throw new Error("Question not found or unauthorized");
+    }
+    await requireGoldenSetAccess(ctx, question.goldenSetId, "editor");
+    await ctx.db.delete(args.questionId);
+  },
+});
+
+// Answers every question in the set in the background. Each question counts
+// towards the daily quotas and rate limit like any other question.
+export const startEvaluationRun = mutation({
+  args: {
+    goldenSetId: v.id("goldenSets"),
+    k: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, goldenSet } = await requireGoldenSetAccess(ctx, args.goldenSetId, "editor");
+    await requireQuota(ctx, goldenSet.workspaceId, userId);
+
+    return await createRun(ctx, goldenSet, userId, args.k);
+  },
+});
+
+// For running a golden set from the command line, e.g. against a deployment
+// using the mock providers:
+//   npx convex run evaluations:runGoldenSet '{"goldenSetId": "..."}'
+export const runGoldenSet = internalMutation({
+  args: {
+    goldenSetId: v.id("goldenSets"),
+    k: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const goldenSet = await ctx.db.get(args.goldenSetId);
+    if (!goldenSet) {
+      throw new Error("Golden set not found");
+    }
+    return await createRun(ctx, goldenSet, undefined, args.k);
+  },
+});
+
+// Stops a run, for instance one stuck after its action crashed, so the set
+// can be evaluated again. A question already being answered finishes but
+// isn't recorded.
+export const cancelEvaluationRun = mutation({
+  args: {
+    runId: v.id("evaluationRuns"),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) {
+      throw new Error("Evaluation run not found or unauthorized");
+    }
+    await requireGoldenSetAccess(ctx, run.goldenSetId, "editor");
+    if (run.status !== "running") {
+      throw new Error("This run has already finished");
+    }
+
+    await ctx.db.patch(args.runId, { status: "failed", error: "Cancelled", completedAt: Date.now() });
+  },
+});
+
+// Newest first, without per-question results
+export const listEvaluationRuns = query({
+  args: {
+    goldenSetId: v.id("goldenSets"),
+  },
+  handler: async (ctx, args) => {
+    const goldenSet = await ctx.db.get(args.goldenSetId);
+    if (!goldenSet || !await getWorkspaceAccess(ctx, goldenSet.workspaceId)) {
+      return [];
+    }
+
+    const runs = await ctx.db
+      .query("evaluationRuns")
+      .withIndex("by_golden_set", (q) => q.eq("goldenSetId", args.goldenSetId))
+      .order("desc")
+      .take(50);
+
+    return runs.map(({ questionIds, ...run }) => ({
+      ...run,
+      totalQuestions: questionIds.length,
+    }));
+  },
+});
+
+export const getEvaluationRun = query({
+  args: {
+    runId: v.id("evaluationRuns"),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run || !await getWorkspaceAccess(ctx, run.workspaceId)) {
+      return null;
+    }
+    return { ...run, results: await listRunResults(ctx, run._id) };
+  },
+});
+
+export const getRunForProcessing = internalQuery({
+  args: {
+    runId: v.id("evaluationRuns"),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run || run.status !== "running") {
+      return null;
+    }
+    const question = await ctx.db.get(run.questionIds[run.completedQuestions]);
+    return { run, question };
+  },
+});
+
+// Answers the run's next question, then schedules itself for the one after,
+// so long golden sets don't hit the action time limit
+export const runNextQuestion = internalAction({
+  args: {
+    runId: v.id("evaluationRuns"),
+  },
+  handler: async (ctx, args) => {
+    const next = await ctx.runQuery(internal.evaluations.getRunForProcessing, args);
+    if (!next) {
+      return;
+    }
+    const { run, question } = next;
+
+    // Runs started in the app are charged per question, waiting for the rate
+    // limit and stopping once the quota is used up
+    if (run.startedBy) {
+      const quotaError = await ctx.runQuery(internal.usage.checkQuota, { workspaceId: run.workspaceId, userId: run.startedBy });
+      if (quotaError) {
+        await ctx.runMutation(internal.evaluations.failRun, { runId: args.runId, error: quotaError });
+        return;
+      }
+      const retryAfterMs = await ctx.runMutation(internal.rateLimits.takeRateLimitToken, { userId: run.startedBy, name: "query" });
+      if (retryAfterMs !== null) {
+        await ctx.scheduler.runAfter(retryAfterMs, internal.evaluations.runNextQuestion, args);
+        return;
+      }
+    }
+
+    try {
+      const result = question ? await evaluateQuestion(ctx, run, question) : undefined;
+
+      const remaining: number = await ctx.runMutation(internal.evaluations.recordResult, { runId: args.runId, result });
+      if (remaining > 0) {
+        await ctx.scheduler.runAfter(0, internal.evaluations.runNextQuestion, args);
+      }
+    } catch (error: any) {
+      await ctx.runMutation(internal.evaluations.failRun, {
+        runId: args.runId,
+        error: error.message || "Evaluation failed",
+      });
+    }
+  },
+});
+
+// Returns how many questions are left; the run's metrics are computed once none are
+export const recordResult = internalMutation({
+  args: {
+    runId: v.id("evaluationRuns"),
+    // Unset for a question deleted during the run, which is skipped
+    result: v.optional(evaluationResultValidator),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run || run.status !== "running") {
+      return 0;
+    }
+
+    if (args.result) {
+      await ctx.db.insert("evaluationResults", { runId: args.runId, ...args.result });
+    }
+    const completedQuestions = run.completedQuestions + 1;
+    const remaining = run.questionIds.length - completedQuestions;
+    await ctx.db.patch(args.runId, remaining > 0 ? { completedQuestions } : {
+      completedQuestions,
+      status: "complete",
+      metrics: summarizeResults(await listRunResults(ctx, args.runId), run.k),
+      completedAt: Date.now(),
+    });
+    return remaining;
+  },
+});
+
+export const failRun = internalMutation({
+  args: {
+    runId: v.id("evaluationRuns"),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, { status: "failed", error: args.error, completedAt: Date.now() });
+  },
+});
+
+// A query record for a golden question, so it's answered like a question
+// asked in the app. Runs started from the command line ask as the set's creator.
+export const createEvaluationQuery = internalMutation({
+  args: {
+    runId: v.id("evaluationRuns"),
+    question: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    const goldenSet = run && await ctx.db.get(run.goldenSetId);
+    if (!run || !goldenSet) {
+      throw new Error("Evaluation run not found");
+    }
+
+    return await ctx.db.insert("queries", {
+      userId: run.startedBy ?? goldenSet.createdBy,
+      workspaceId: run.workspaceId,
+      query: args.question,
+      response: "",
+      sources: [],
+      processingTime: 0,
+      status: "retrieving",
+      evaluationRunId: args.runId,
+    });
+  },
+});
+
+// Used by `addGoldenQuestion`, and by anything else that turns a question into a golden one
+export async function insertGoldenQuestion(
+  ctx: MutationCtx,
+  goldenSetId: Id<"goldenSets">,
+  fields: { question: string; expectedAnswer?: string; expectedSource?: ExpectedSource },
+) {
+  const question = fields.question.trim();
+  if (!question) {
+    throw new Error("Question is required");
+  }
+
+  const existing = await ctx.db
+    .query("goldenQuestions")
+    .withIndex("by_golden_set", (q) => q.eq("goldenSetId", goldenSetId))
+    .collect();
+  if (existing.length >= MAX_GOLDEN_QUESTIONS) {
+    throw new Error(`Golden sets can have at most ${MAX_GOLDEN_QUESTIONS} questions`);
+  }
+
+  return await ctx.db.insert("goldenQuestions", {
+    goldenSetId,
+    question,
+    expectedAnswer: fields.expectedAnswer?.trim() || undefined,
+    expectedSource: fields.expectedSource,
+  });
+}
+
+export async function requireGoldenSetAccess(
+  ctx: QueryCtx,
+  goldenSetId: Id<"goldenSets">,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+
+  const goldenSet = await ctx.db.get(goldenSetId);
+  const access = goldenSet && await getWorkspaceAccess(ctx, goldenSet.workspaceId, minimumRole);
+  if (!goldenSet || !access) {
+    throw new Error("Golden set not found or unauthorized");
+  }
+  return { ...access, goldenSet };
+}
+
+async function createRun(
+  ctx: MutationCtx,
+  goldenSet: Doc<"goldenSets">,
+  startedBy: Id<"users"> | undefined,
+  k = MAX_SOURCES,
+) {
+  if (!Number.isInteger(k) || k < 1 || k > MAX_SOURCES) {
+    throw new Error(`k must be a whole number between 1 and ${MAX_SOURCES}`);
+  }
+
+  const running = await ctx.db
+    .query("evaluationRuns")
+    .withIndex("by_golden_set", (q) => q.eq("goldenSetId", goldenSet._id))
+    .filter((q) => q.eq(q.field("status"), "running"))
+    .first();
+  if (running) {
+    throw new Error("This golden set is already being evaluated");
+  }
+
+  const questions = await ctx.db
+    .query("goldenQuestions")
+    .withIndex("by_golden_set", (q) => q.eq("goldenSetId", goldenSet._id))
+    .collect();
+  if (questions.length === 0) {
+    throw new Error("Add some questions to the golden set first");
+  }
+
+  const settings = await findSettings(ctx, goldenSet.workspaceId);
+  const llmProvider = process.env.LLM_PROVIDER ?? "openai";
+
+  const runId = await ctx.db.insert("evaluationRuns", {
+    workspaceId: goldenSet.workspaceId,
+    goldenSetId: goldenSet._id,
+    startedBy,
+    status: "running",
+    k,
+    config: {
+      modelSettings: settings?.modelSettings ?? DEFAULT_MODEL_SETTINGS,
+      llmProvider,
+      // The mock language model provider always embeds locally
+      embeddingProvider: llmProvider === "mock" ? "local" : process.env.EMBEDDING_PROVIDER ?? "openai",
+    },
+    questionIds: questions.map((question) => question._id),
+    completedQuestions: 0,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.evaluations.runNextQuestion, { runId });
+  return runId;
+}
+
+// Answers through the same pipeline as a question asked in the app, which
+// also records its usage. The cache is skipped so every run measures
+// retrieval and generation.
+async function evaluateQuestion(
+  ctx: ActionCtx,
+  run: Doc<"evaluationRuns">,
+  question: Doc<"goldenQuestions">,
+): Promise<EvaluationResult> {
+  // A failure to create the query fails the run, as nothing could be answered
+  const queryId = await ctx.runMutation(internal.evaluations.createEvaluationQuery, {
+    runId: run._id,
+    question: question.question,
+  });
+
+  try {
+    const response = await answerQuery(ctx, queryId, { bypassCache: true });
+
+    return {
+      questionId: question._id,
+      question: question.question,
+      answer: response.answer,
+      abstained: response.abstained,
+      sourceRank: question.expectedSource ? sourceRank(response.sources, question.expectedSource) : undefined,
+      answerScore: question.expectedAnswer !== undefined
+        ? (response.abstained ? 0 : answerMatch(response.answer, question.expectedAnswer))
+        : undefined,
+      retrievalMs: response.retrievalTime,
+      generationMs: response.processingTime - response.retrievalTime,
+      queryId,
+    };
+  } catch (error: any) {
+    return {
+      questionId: question._id,
+      question: question.question,
+      answer: "",
+      abstained: false,
+      sourceRank: question.expectedSource ? null : undefined,
+      answerScore: question.expectedAnswer !== undefined ? 0 : undefined,
+      retrievalMs: 0,
+      generationMs: 0,
+      error: error.message || "Failed to answer question",
+      queryId,
+    };
+  }
+}
+
+async function listRunResults(ctx: QueryCtx, runId: Id<"evaluationRuns">) {
+  const results = await ctx.db
+    .query("evaluationResults")
+    .withIndex("by_run", (q) => q.eq("runId", runId))
+    .collect();
+  return results.map(({ _id, _creationTime, runId: _runId, ...result }) => result);
+}
+
+// Deletes a run's results and the queries they were answered through
+async function deleteRunResults(ctx: MutationCtx, runId: Id<"evaluationRuns">) {
+  const results = await ctx.db
+    .query("evaluationResults")
+    .withIndex("by_run", (q) => q.eq("runId", runId))
+    .collect();
+  for (const result of results) {
+    if (await ctx.db.get(result.queryId)) {
+      await ctx.db.delete(result.queryId);
+    }
+    await ctx.db.delete(result._id);
+  }
+}
+
+// 1-based rank of the first source overlapping the expected span, or null
+function sourceRank(sources: Source[], expected: ExpectedSource) {
+  const index = sources.findIndex((source) =>
+    source.documentId === expected.documentId &&
+    source.startIndex < expected.endIndex &&
+    source.endIndex > expected.startIndex
+  );
+  return index >= 0 ? index + 1 : null;
+}
+
+// Token-level F1 between the answer and the expected answer, ignoring case,
+// punctuation and articles
+function answerMatch(answer: string, expected: string) {
+  const answerTokens = normalizeAnswer(answer);
+  const expectedTokens = normalizeAnswer(expected);
+  if (answerTokens.length === 0 || expectedTokens.length === 0) {
+    return answerTokens.length === expectedTokens.length ? 1 : 0;
+  }
+
+  const remaining = new Map<string, number>();
+  for (const token of expectedTokens) {
+    remaining.set(token, (remaining.get(token) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (const token of answerTokens) {
+    const count = remaining.get(token) ?? 0;
+    if (count > 0) {
+      overlap++;
+      remaining.set(token, count - 1);
+    }
+  }
+  if (overlap === 0) {
+    return 0;
+  }
+
+  const precision = overlap / answerTokens.length;
+  const recall = overlap / expectedTokens.length;
+  return 2 * precision * recall / (precision + recall);
+}
+
+function normalizeAnswer(text: string) {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter((token) => !ARTICLES.has(token));
+}
+
+function summarizeResults(results: EvaluationResult[], k: number): EvaluationMetrics {
+  const ranked = results.filter((result) => result.sourceRank !== undefined);
+  const scored = results.filter((result) => result.answerScore !== undefined);
+  const latencies = results.map((result) => result.retrievalMs + result.generationMs);
+
+  return {
+    recallAtK: ranked.length
+      ? mean(ranked.map((result) => (result.sourceRank && result.sourceRank <= k ? 1 : 0)))
+      : undefined,
+    mrr: ranked.length
+      ? mean(ranked.map((result) => (result.sourceRank ? 1 / result.sourceRank : 0)))
+      : undefined,
+    answerMatch: scored.length ? mean(scored.map((result) => result.answerScore ?? 0)) : undefined,
+    abstentionRate: mean(results.map((result) => (result.abstained ? 1 : 0))),
+    meanLatencyMs: mean(latencies),
+    p95LatencyMs: percentile(latencies, 0.95),
+    meanRetrievalMs: mean(results.map((result) => result.retrievalMs)),
+    meanGenerationMs: mean(results.map((result) => result.generationMs)),
+    errors: results.filter((result) => result.error).length,
+  };
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Nearest-rank percentile, with `fraction` between 0 and 1
+export function percentile(values: number[], fraction: number) {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+function validateGoldenSetName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Golden set name is required");
+  }
+  if (trimmed.length > MAX_GOLDEN_SET_NAME_LENGTH) {
+    throw new Error(`Golden set names can be at most ${MAX_GOLDEN_SET_NAME_LENGTH} characters long`);
+  }
+  return trimmed;
+}
@@ -0,0 +1,108 @@
+import { extractText } from "unpdf";
+
+export type ExtractedDocument = {
+  content: string;
+  // Character ranges of each PDF page within `content`
+  pages?: Array<{ pageNumber: number; startIndex: number; endIndex: number }>;
+  // Headings found in an HTML document, with their offset within `content`
+  outline?: Array<{ level: number; text: string; startIndex: number }>;
+};
+
+// Turns an uploaded or fetched file into plain text, based on its MIME type
+// or, failing that, its file name. Throws when the file can't be parsed.
+export async function extractDocument(blob: Blob, fileType: string, fileName = ""): Promise<ExtractedDocument> {
+  const type = fileType.toLowerCase();
+  const name = fileName.toLowerCase();
+
+  if (type.includes("application/pdf") || name.endsWith(".pdf")) {
+    return await extractPdf(blob);
+  }
+  if (type.includes("text/html") || name.endsWith(".html") || name.endsWith(".htm")) {
+    return extractHtml(await blob.text());
+  }
+  return { content: await blob.text() };
+}
+
+async function extractPdf(blob: Blob): Promise<ExtractedDocument> {
+  const { text } = await extractText(new Uint8Array(await blob.arrayBuffer()));
+
+  const pages = [];
+  let content = "";
+  for (const [index, pageText] of text.entries()) {
+    if (content) content += "\n\n";
+    const startIndex = content.length;
+    content += pageText.trim();
+    pages.push({ pageNumber: index + 1, startIndex, endIndex: content.length });
+  }
+
+  if (!content.trim()) {
+    throw new Error("No extractable text found in PDF (it may be scanned or image-only)");
+  }
+
+  return { content, pages };
+}
+
+const BLOCK_TAGS = /^(p|div|section|article|header|footer|nav|aside|main|li|ul|ol|tr|table|blockquote|pre|br|hr|h[1-6])$/;
+
+function extractHtml(html: string): ExtractedDocument {
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi, "");
+
+  const outline = [];
+  let content = "";
+  let heading: { level: number; startIndex: number } | null = null;
+
+  for (const token of body.split(/(<[^>]*>)/)) {
+    const tag = token.match(/^<\s*(\/?)\s*([a-z0-9]+)/i);
+    if (!tag) {
+      const text = decodeEntities(token).replace(/\s+/g, " ");
+      if (text.trim()) {
+        content += content && !/\s$/.test(content) ? text : text.trimStart();
+      }
+      continue;
+    }
+
+    const [, closing, rawName] = tag;
+    const name = rawName.toLowerCase();
+    if (!BLOCK_TAGS.test(name)) continue;
+
+    content = content.trimEnd();
+    if (content) content += "\n";
+
+    const level = name.match(/^h([1-6])$/)?.[1];
+    if (level && !closing) {
+      heading = { level: Number(level), startIndex: content.length };
+    } else if (level && heading) {
+      const text = content.slice(heading.startIndex).trim();
+      if (text) outline.push({ level: heading.level, text, startIndex: heading.startIndex });
+      heading = null;
+    }
+  }
+
+  return { content: content.trim(), outline };
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#x") || code.startsWith("#X")) return fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return fromCodePoint(parseInt(code.slice(1), 10));
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Like browsers, decodes code points that aren't valid characters as U+FFFD
+// instead of failing the whole document
+function fromCodePoint(codePoint: number) {
+  const valid = codePoint > 0 && codePoint <= 0x10ffff && !(codePoint >= 0xd800 && codePoint <= 0xdfff);
+  return valid ? String.fromCodePoint(codePoint) : "\uFFFD";
+}
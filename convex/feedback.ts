@@ -0,0 +1,325 @@
+import { v, Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, action, internalQuery, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { insertGoldenQuestion, requireGoldenSetAccess } from "./evaluations";
+import { feedbackRatingValidator, feedbackReasonValidator } from "./schema";
+import { getWorkspaceAccess, hasRole } from "./workspaces";
+
+type FeedbackReason = Infer<typeof feedbackReasonValidator>;
+
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_CORRECTION_LENGTH = 5000;
+const RECENT_FEEDBACK = 50;
+const EXPORT_PAGE_SIZE = 100;
+// Newest feedback counted in the per-document summaries
+const MAX_SUMMARIZED_FEEDBACK = 5000;
+
+// The signed-in user's feedback on one of their queries, for the answer and
+// each rated source
+export const getQueryFeedback = query({
+  args: {
+    queryId: v.id("queries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    const record = await ctx.db.get(args.queryId);
+    if (!userId || !record || record.userId !== userId) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("feedback")
+      .withIndex("by_query_and_source", (q) => q.eq("queryId", args.queryId))
+      .collect();
+  },
+});
+
+// Rates the answer, or one of its sources when `sourceIndex` is set. Rating
+// again replaces the earlier feedback.
+export const submitFeedback = mutation({
+  args: {
+    queryId: v.id("queries"),
+    sourceIndex: v.optional(v.number()),
+    rating: feedbackRatingValidator,
+    reason: v.optional(feedbackReasonValidator),
+    comment: v.optional(v.string()),
+    correction: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { userId, record, workspaceId } = await requireOwnQuery(ctx, args.queryId);
+    if (record.status && record.status !== "complete") {
+      throw new Error("Feedback can only be given on finished answers");
+    }
+
+    let documentId: Id<"documents"> | undefined;
+    if (args.sourceIndex !== undefined) {
+      const source = record.sources[args.sourceIndex - 1];
+      if (!Number.isInteger(args.sourceIndex) || !source) {
+        throw new Error("Source not found");
+      }
+      if (args.correction !== undefined) {
+        throw new Error("Corrections can only be given for the answer");
+      }
+      documentId = source.documentId;
+    }
+
+    const fields = {
+      workspaceId,
+      queryId: record._id,
+      userId,
+      sourceIndex: args.sourceIndex,
+      documentId,
+      rating: args.rating,
+      reason: args.reason,
+      comment: validateText(args.comment, MAX_COMMENT_LENGTH, "Comments"),
+      correction: validateText(args.correction, MAX_CORRECTION_LENGTH, "Corrections"),
+      updatedAt: Date.now(),
+    };
+
+    const existing = await findFeedback(ctx, record._id, args.sourceIndex);
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+    return await ctx.db.insert("feedback", fields);
+  },
+});
+
+export const removeFeedback = mutation({
+  args: {
+    queryId: v.id("queries"),
+    sourceIndex: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireOwnQuery(ctx, args.queryId);
+
+    const existing = await findFeedback(ctx, args.queryId, args.sourceIndex);
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+// The newest feedback in a workspace with the questions and answers it is
+// about, so it is limited to editors and owners
+export const listFeedback = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId, "editor");
+    if (!access) {
+      return [];
+    }
+
+    const feedback = await ctx.db
+      .query("feedback")
+      .withIndex("by_workspace_and_updated", (q) => q.eq("workspaceId", args.workspaceId))
+      .order("desc")
+      .take(RECENT_FEEDBACK);
+
+    return await Promise.all(feedback.map((item) => describeFeedback(ctx, item)));
+  },
+});
+
+export const listFeedbackPage = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("feedback")
+      .withIndex("by_workspace_and_updated", (q) => q.eq("workspaceId", args.workspaceId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return { ...page, page: await Promise.all(page.page.map((item) => describeFeedback(ctx, item))) };
+  },
+});
+
+// All of a workspace's feedback, newest first. Read a page at a time, since
+// each entry includes its question's answer.
+export const exportFeedback = action({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args): Promise<FeedbackEntry[]> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+    const role = await ctx.runQuery(internal.workspaces.getMemberRole, { workspaceId: args.workspaceId, userId });
+    if (!role || !hasRole(role, "editor")) {
+      throw new Error("Workspace not found or unauthorized");
+    }
+
+    const entries: FeedbackEntry[] = [];
+    let cursor: string | null = null;
+    for (;;) {
+      const page: { page: FeedbackEntry[]; isDone: boolean; continueCursor: string } = await ctx.runQuery(
+        internal.feedback.listFeedbackPage,
+        { workspaceId: args.workspaceId, paginationOpts: { numItems: EXPORT_PAGE_SIZE, cursor } },
+      );
+      entries.push(...page.page);
+      if (page.isDone) {
+        return entries;
+      }
+      cursor = page.continueCursor;
+    }
+  },
+});
+
+// Adds the question behind feedback on an answer to a golden set. The
+// corrected answer, or the original one if it was rated up, becomes the
+// expected answer, and a source the asker rated up becomes the expected source.
+export const promoteFeedback = mutation({
+  args: {
+    feedbackId: v.id("feedback"),
+    goldenSetId: v.id("goldenSets"),
+  },
+  handler: async (ctx, args) => {
+    const { goldenSet } = await requireGoldenSetAccess(ctx, args.goldenSetId, "editor");
+    const feedback = await ctx.db.get(args.feedbackId);
+    if (!feedback || feedback.workspaceId !== goldenSet.workspaceId) {
+      throw new Error("Feedback not found or unauthorized");
+    }
+    if (feedback.sourceIndex !== undefined) {
+      throw new Error("Only feedback on an answer can be added to a golden set");
+    }
+    const record = await ctx.db.get(feedback.queryId);
+    if (!record) {
+      throw new Error("The question for this feedback no longer exists");
+    }
+
+    const expectedAnswer = feedback.correction ??
+      (feedback.rating === "up" && !record.abstained ? record.response : undefined);
+
+    const ratings = await ctx.db
+      .query("feedback")
+      .withIndex("by_query_and_source", (q) => q.eq("queryId", record._id))
+      .collect();
+    const relevant = ratings.find((rating) => rating.sourceIndex !== undefined && rating.rating === "up");
+    const source = relevant && record.sources[relevant.sourceIndex! - 1];
+    const expectedSource = source && await ctx.db.get(source.documentId)
+      ? { documentId: source.documentId, startIndex: source.startIndex, endIndex: source.endIndex }
+      : undefined;
+
+    if (expectedAnswer === undefined && !expectedSource) {
+      throw new Error("Add a corrected answer or rate a source as relevant before adding this question to a golden set");
+    }
+
+    const questionId = await insertGoldenQuestion(ctx, goldenSet._id, {
+      // Follow-up questions only make sense within their conversation
+      question: record.retrievalQuery ?? record.query,
+      expectedAnswer,
+      expectedSource,
+    });
+    await ctx.db.patch(feedback._id, { promotedTo: questionId });
+    return questionId;
+  },
+});
+
+// How often each document's passages were rated relevant or not as sources.
+// Only counts, so every member can see them.
+export const listDocumentFeedback = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    if (!await getWorkspaceAccess(ctx, args.workspaceId)) {
+      return [];
+    }
+
+    const feedback = await ctx.db
+      .query("feedback")
+      .withIndex("by_workspace_and_updated", (q) => q.eq("workspaceId", args.workspaceId))
+      .order("desc")
+      .take(MAX_SUMMARIZED_FEEDBACK);
+
+    const summaries = new Map<Id<"documents">, {
+      relevant: number;
+      notRelevant: number;
+      reasons: Map<FeedbackReason, number>;
+    }>();
+    for (const item of feedback) {
+      if (!item.documentId) {
+        continue;
+      }
+      const summary = summaries.get(item.documentId) ?? { relevant: 0, notRelevant: 0, reasons: new Map() };
+      if (item.rating === "up") {
+        summary.relevant++;
+      } else {
+        summary.notRelevant++;
+        if (item.reason) {
+          summary.reasons.set(item.reason, (summary.reasons.get(item.reason) ?? 0) + 1);
+        }
+      }
+      summaries.set(item.documentId, summary);
+    }
+
+    return [...summaries.entries()].map(([documentId, summary]) => ({
+      documentId,
+      relevant: summary.relevant,
+      notRelevant: summary.notRelevant,
+      // The most common reason given for rating the document's passages down
+      topReason: [...summary.reasons.entries()].sort((a, b) => b[1] - a[1])[0]?.[0],
+    }));
+  },
+});
+
+export type FeedbackEntry = Awaited<ReturnType<typeof describeFeedback>>;
+
+async function describeFeedback(ctx: QueryCtx, feedback: Doc<"feedback">) {
+  const record = await ctx.db.get(feedback.queryId);
+  const source = feedback.sourceIndex !== undefined ? record?.sources[feedback.sourceIndex - 1] : undefined;
+
+  return {
+    _id: feedback._id,
+    queryId: feedback.queryId,
+    updatedAt: feedback.updatedAt,
+    question: record?.query ?? "",
+    answer: record?.response ?? "",
+    sourceIndex: feedback.sourceIndex,
+    documentTitle: source?.documentTitle,
+    sourceText: source?.relevantChunk,
+    rating: feedback.rating,
+    reason: feedback.reason,
+    comment: feedback.comment,
+    correction: feedback.correction,
+    promotedTo: feedback.promotedTo,
+  };
+}
+
+// Questions are private to the person who asked them, so only they can rate the answers
+async function requireOwnQuery(ctx: QueryCtx, queryId: Id<"queries">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+
+  const record = await ctx.db.get(queryId);
+  const access = record?.workspaceId && await getWorkspaceAccess(ctx, record.workspaceId);
+  if (!record?.workspaceId || record.userId !== userId || !access) {
+    throw new Error("Query not found or unauthorized");
+  }
+  return { userId, record, workspaceId: record.workspaceId };
+}
+
+async function findFeedback(ctx: QueryCtx, queryId: Id<"queries">, sourceIndex: number | undefined) {
+  return await ctx.db
+    .query("feedback")
+    .withIndex("by_query_and_source", (q) => q.eq("queryId", queryId).eq("sourceIndex", sourceIndex))
+    .unique();
+}
+
+function validateText(text: string | undefined, maxLength: number, label: string) {
+  const trimmed = text?.trim();
+  if (trimmed && trimmed.length > maxLength) {
+    throw new Error(`${label} can be at most ${maxLength} characters`);
+  }
+  return trimmed || undefined;
+}
@@ -0,0 +1,18 @@
+// SHA-256 of text or bytes, as lowercase hex. Used for content hashes and for
+// the secrets (API keys, invitation codes) that are only stored hashed.
+export async function sha256Hex(data: string | ArrayBuffer) {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return toHex(new Uint8Array(digest));
+}
+
+// `byteCount` cryptographically random bytes, as hex
+export function randomHex(byteCount: number) {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteCount)));
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,218 @@
+import { v } from "convex/values";
+import { action, ActionCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { sha256Hex } from "./hashing";
+import { rateLimitMessage } from "./rateLimits";
+import { chunkingValidator } from "./schema";
+import { hasRole } from "./workspaces";
+
+// Convex file storage and extraction both hold the whole file in memory
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+const TOO_LARGE_MESSAGE = "Document is larger than 20 MB";
+// Covers the whole download, so a slow server can't hold up the action
+const FETCH_TIMEOUT_MS = 60_000;
+
+export type FetchedDocument = {
+  bytes: ArrayBuffer;
+  contentType: string;
+  fileName: string;
+};
+
+export type DocumentFetcher = (url: string) => Promise<FetchedDocument>;
+
+let documentFetcher: DocumentFetcher = fetchOverHttp;
+
+// Replaces how documents are fetched, so tests can serve them from a local
+// stub instead of the network
+export function setDocumentFetcher(fetcher: DocumentFetcher) {
+  documentFetcher = fetcher;
+}
+
+// Downloads a document for ingestion or for answering questions about it.
+// Throws when the URL can't be fetched.
+export async function fetchDocument(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Invalid document URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new Error("Only http and https document URLs are supported");
+  }
+
+  const fetched = await documentFetcher(url);
+  if (fetched.bytes.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new Error(TOO_LARGE_MESSAGE);
+  }
+  return fetched;
+}
+
+// Fetches a document from a URL into file storage and queues it for
+// processing like an upload. A URL whose content the workspace already has
+// returns the existing document instead of adding a copy.
+export const ingestFromUrl = action({
+  args: {
+    workspaceId: v.id("workspaces"),
+    url: v.string(),
+    chunking: v.optional(chunkingValidator),
+  },
+  handler: async (ctx, args): Promise<{ documentId: Id<"documents">; duplicate: boolean }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const role = await ctx.runQuery(internal.workspaces.getMemberRole, { workspaceId: args.workspaceId, userId });
+    if (!role || !hasRole(role, "editor")) {
+      throw new Error("Workspace not found or unauthorized");
+    }
+
+    const retryAfterMs = await ctx.runMutation(internal.rateLimits.takeRateLimitToken, { userId, name: "upload" });
+    if (retryAfterMs !== null) {
+      throw new Error(rateLimitMessage(retryAfterMs));
+    }
+
+    return await ingestDocument(ctx, userId, args.workspaceId, args.url, args.chunking);
+  },
+});
+
+// Shared by `ingestFromUrl` and the HTTP API, which check access first
+export async function ingestDocument(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces">,
+  url: string,
+  chunking?: Doc<"documents">["chunking"],
+): Promise<{ documentId: Id<"documents">; duplicate: boolean }> {
+  const fetched = await fetchDocument(url);
+  return await storeDocument(ctx, userId, workspaceId, fetched, { sourceUrl: url, chunking });
+}
+
+// Stores a fetched or uploaded file and queues it for processing, unless the
+// workspace already has the same content
+export async function storeDocument(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  workspaceId: Id<"workspaces">,
+  file: FetchedDocument,
+  options: { sourceUrl?: string; chunking?: Doc<"documents">["chunking"] } = {},
+): Promise<{ documentId: Id<"documents">; duplicate: boolean }> {
+  if (file.bytes.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new Error(TOO_LARGE_MESSAGE);
+  }
+
+  const contentHash = await sha256Hex(file.bytes);
+
+  // Checked again when saving, in case the same file is being added concurrently
+  const existing = await ctx.runQuery(internal.documents.getDocumentByHash, { workspaceId, contentHash });
+  if (existing) {
+    return { documentId: existing._id, duplicate: true };
+  }
+
+  const storageId = await ctx.storage.store(new Blob([file.bytes], { type: file.contentType }));
+
+  return await ctx.runMutation(internal.documents.saveStoredDocument, {
+    userId,
+    workspaceId,
+    title: file.fileName,
+    fileType: file.contentType,
+    fileSize: file.bytes.byteLength,
+    storageId,
+    sourceUrl: options.sourceUrl,
+    contentHash,
+    chunking: options.chunking,
+  });
+}
+
+async function fetchOverHttp(url: string): Promise<FetchedDocument> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const response = await fetch(url, { signal }).catch(() => null);
+  if (!response?.ok) {
+    if (response) {
+      throw new Error(`Failed to fetch document (HTTP ${response.status})`);
+    }
+    throw new Error(signal.aborted ? "Timed out fetching document" : "Failed to fetch document");
+  }
+
+  // Rejected before reading when the server declares the size, and while
+  // reading otherwise, so a huge or endless body is never held in memory
+  if (Number(response.headers.get("Content-Length")) > MAX_DOCUMENT_BYTES) {
+    await response.body?.cancel();
+    throw new Error(TOO_LARGE_MESSAGE);
+  }
+  const bytes = await readBody(response).catch((error) => {
+    throw signal.aborted ? new Error("Timed out fetching document") : error;
+  });
+  const fileName = fileNameFromHeader(response.headers.get("Content-Disposition")) ??
+    (decodeURIComponent(new URL(url).pathname.split("/").pop() ?? "") || new URL(url).hostname);
+
+  return {
+    bytes,
+    contentType: detectContentType(response.headers.get("Content-Type"), bytes, fileName),
+    fileName,
+  };
+}
+
+async function readBody(response: Response) {
+  if (!response.body) {
+    return new ArrayBuffer(0);
+  }
+
+  const reader = response.body.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > MAX_DOCUMENT_BYTES) {
+      await reader.cancel();
+      throw new Error(TOO_LARGE_MESSAGE);
+    }
+    parts.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes.buffer;
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  html: "text/html",
+  htm: "text/html",
+  txt: "text/plain",
+  md: "text/plain",
+};
+
+// Servers (and blob stores in particular) often send a generic or missing
+// Content-Type, so fall back to the file's contents and then its extension
+export function detectContentType(header: string | null, bytes: ArrayBuffer, fileName: string) {
+  const declared = header?.split(";")[0].trim().toLowerCase();
+  if (declared && declared !== "application/octet-stream" && declared !== "binary/octet-stream") {
+    return declared;
+  }
+
+  const start = new TextDecoder().decode(bytes.slice(0, 512)).trimStart().toLowerCase();
+  if (start.startsWith("%pdf-")) {
+    return "application/pdf";
+  }
+  if (start.startsWith("<!doctype html") || start.startsWith("<html")) {
+    return "text/html";
+  }
+
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  return EXTENSION_TYPES[extension] ?? "text/plain";
+}
+
+function fileNameFromHeader(header: string | null) {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  return match ? decodeURIComponent(match[1]) : null;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createMockLlmProvider, ModelSettings } from "./llm";
+
+const settings: ModelSettings = { model: "mock", temperature: 0, maxTokens: 500 };
+
+// Laid out like the prompt generateResponse builds
+function citedAnswerPrompt(sources: string[], question: string) {
+  const context = sources.map((text, index) => `[Source ${index + 1}] policy.pdf: ${text}`).join("\n\n");
+  return `Context from documents:\n${context}\n\nQuestion: ${question}\n\nPlease provide a comprehensive answer.`;
+}
+
+async function mockAnswer(prompt: string) {
+  const reply = await createMockLlmProvider().complete({
+    messages: [{ role: "user", content: prompt }],
+    settings,
+    responseFormat: { name: "cited_answer", schema: {} },
+  });
+  return JSON.parse(reply).sentences as Array<{ text: string; sources: number[] }>;
+}
+
+describe("mock cited answers", () => {
+  it("answers from the matching sentence of a multi-line, numbered chunk", async () => {
+    const chunk = [
+      "4. GRACE PERIOD",
+      "4.1 Premiums are due on the date shown in the schedule.",
+      "4.2 A grace period of thirty days is allowed for payment of",
+      "the renewal premium, during which the policy stays in force.",
+      "",
+      "5. WAITING PERIOD",
+      "Pre-existing diseases are covered after 36 months of continuous cover.",
+    ].join("\n");
+
+    const sentences = await mockAnswer(citedAnswerPrompt([chunk], "What is the grace period for premium payment?"));
+
+    expect(sentences).toEqual([{
+      text: "A grace period of thirty days is allowed for payment of the renewal premium, during which the policy stays in force.",
+      sources: [1],
+    }]);
+  });
+
+  it("doesn't end sentences at clause numbers or abbreviations", async () => {
+    const chunk = "Claims under clause 7. b must be filed within 30 days, e.g. by email. Late claims are refused.";
+
+    const sentences = await mockAnswer(citedAnswerPrompt([chunk], "How are claims filed under clause 7?"));
+
+    expect(sentences.map((sentence) => sentence.text)).toEqual([
+      "Claims under clause 7. b must be filed within 30 days, e.g. by email.",
+    ]);
+  });
+
+  it("reads every source up to the next header, not the question", async () => {
+    const sources = [
+      "Room rent is capped\nat 1% of the sum insured per day.",
+      "Ambulance charges are covered up to\nRs. 2,000 per hospitalisation.",
+    ];
+
+    const sentences = await mockAnswer(citedAnswerPrompt(sources, "Are ambulance charges covered?"));
+
+    expect(sentences).toEqual([{ text: "Ambulance charges are covered up to Rs. 2,000 per hospitalisation.", sources: [2] }]);
+  });
+
+  it("returns no sentences when no source shares words with the question", async () => {
+    const sentences = await mockAnswer(citedAnswerPrompt(["Maternity cover starts\nafter nine months."], "Is dental treatment included?"));
+
+    expect(sentences).toEqual([]);
+  });
+});
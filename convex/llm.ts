@@ -0,0 +1,235 @@
+import { Infer } from "convex/values";
+import { modelSettingsValidator, tokenUsageValidator } from "./schema";
+import { createLocalEmbeddingProvider, EmbeddingProvider, getEmbeddingProvider } from "./embeddings";
+import OpenAI from "openai";
+
+export type ModelSettings = Infer<typeof modelSettingsValidator>;
+
+export type TokenUsage = Infer<typeof tokenUsageValidator>;
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  settings: ModelSettings;
+  // Constrains the reply to JSON matching `schema`
+  responseFormat?: { name: string; schema: Record<string, unknown> };
+  // Called with the tokens the request used once the reply is complete
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export interface LlmProvider extends EmbeddingProvider {
+  complete(request: ChatRequest): Promise<string>;
+  // Yields the reply in pieces as it is generated
+  stream(request: ChatRequest): AsyncIterable<string>;
+}
+
+// Picks the provider from LLM_PROVIDER ("openai" by default, or "mock")
+export function getLlmProvider(): LlmProvider {
+  if (process.env.LLM_PROVIDER === "mock") {
+    return createMockLlmProvider();
+  }
+  return createOpenAILlmProvider();
+}
+
+export function createOpenAILlmProvider(): LlmProvider {
+  const openai = new OpenAI({
+    baseURL: process.env.CONVEX_OPENAI_BASE_URL,
+    apiKey: process.env.CONVEX_OPENAI_API_KEY,
+  });
+  const embeddingProvider = getEmbeddingProvider();
+
+  const toParams = (request: ChatRequest) => ({
+    model: request.settings.model,
+    messages: request.messages,
+    temperature: request.settings.temperature,
+    max_tokens: request.settings.maxTokens,
+    response_format: request.responseFormat && {
+      type: "json_schema" as const,
+      json_schema: { name: request.responseFormat.name, strict: true, schema: request.responseFormat.schema },
+    },
+  });
+
+  return {
+    embed: (texts, onUsage) => embeddingProvider.embed(texts, onUsage),
+    minEvidenceScore: embeddingProvider.minEvidenceScore,
+
+    async complete(request) {
+      const completion = await openai.chat.completions.create(toParams(request));
+      if (completion.usage) {
+        request.onUsage?.({
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        });
+      }
+      return completion.choices[0].message.content ?? "";
+    },
+
+    async *stream(request) {
+      const stream = await openai.chat.completions.create({
+        ...toParams(request),
+        stream: true,
+        // Usage arrives in a final chunk with no choices
+        stream_options: { include_usage: true },
+      });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+        if (chunk.usage) {
+          request.onUsage?.({
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+          });
+        }
+      }
+    },
+  };
+}
+
+// Deterministic provider that needs no network access or API key, for tests
+// and local development. Replies are built from the prompt itself: cited
+// answers quote the sources that best match the question, groundedness
+// checks compare words with the sources, and plain completions echo the
+// question.
+export function createMockLlmProvider(): LlmProvider {
+  const embeddingProvider = createLocalEmbeddingProvider();
+
+  return {
+    embed: (texts, onUsage) => embeddingProvider.embed(texts, onUsage),
+    minEvidenceScore: embeddingProvider.minEvidenceScore,
+
+    async complete(request) {
+      const reply = mockReply(request);
+      request.onUsage?.(mockUsage(request, reply));
+      return reply;
+    },
+
+    async *stream(request) {
+      const reply = mockReply(request);
+      for (let i = 0; i < reply.length; i += 16) {
+        yield reply.slice(i, i + 16);
+      }
+      request.onUsage?.(mockUsage(request, reply));
+    },
+  };
+}
+
+// Adds up the tokens used by several requests, such as every call made to answer one question
+export function createUsageCounter() {
+  const total: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  return {
+    total,
+    add: (usage: TokenUsage) => {
+      total.promptTokens += usage.promptTokens;
+      total.completionTokens += usage.completionTokens;
+    },
+  };
+}
+
+// Roughly four characters per token, like OpenAI's tokenizers on English text
+function mockUsage(request: ChatRequest, reply: string): TokenUsage {
+  const promptLength = request.messages.reduce((length, message) => length + message.content.length, 0);
+  return {
+    promptTokens: Math.ceil(promptLength / 4),
+    completionTokens: Math.ceil(reply.length / 4),
+  };
+}
+
+function mockReply(request: ChatRequest) {
+  const prompt = request.messages.filter((message) => message.role === "user").pop()?.content ?? "";
+
+  switch (request.responseFormat?.name) {
+    case "cited_answer":
+      return mockCitedAnswer(prompt);
+    case "groundedness":
+      return mockGroundedness(prompt);
+    default:
+      return mockQuestion(prompt);
+  }
+}
+
+function mockQuestion(prompt: string) {
+  return [...prompt.matchAll(/question:\s*(.+)$/gim)].pop()?.[1].trim() ?? prompt.trim();
+}
+
+// Answers with the sentence of each source that shares the most words with
+// the question, citing it
+function mockCitedAnswer(prompt: string) {
+  const questionWords = new Set(significantWords(mockQuestion(prompt)));
+  const sources = mockSources(prompt)
+    .map(({ number, text }) => {
+      const [best] = splitSentences(text)
+        .map((sentence, index) => ({
+          sentence,
+          index,
+          overlap: significantWords(sentence).filter((word) => questionWords.has(word)).length,
+        }))
+        .sort((a, b) => b.overlap - a.overlap || a.index - b.index);
+      return { number, sentence: best?.sentence ?? "", overlap: best?.overlap ?? 0 };
+    })
+    .filter((source) => source.sentence && source.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || a.number - b.number)
+    .slice(0, 2);
+
+  return JSON.stringify({
+    sentences: sources.map((source) => ({ text: source.sentence, sources: [source.number] })),
+  });
+}
+
+// The "[Source n] Title: text" blocks laid out by generateResponse. Each
+// runs to the next header; the last one ends where the conversation or
+// the question starts.
+function mockSources(prompt: string) {
+  const headers = [...prompt.matchAll(/^\[Source (\d+)\] [^:\n]*: /gm)];
+  return headers.map((header, index) => {
+    const start = header.index + header[0].length;
+    let text = prompt.slice(start, headers[index + 1]?.index ?? prompt.length);
+    if (index === headers.length - 1) {
+      const end = [text.indexOf("\nEarlier in this conversation:\n"), text.lastIndexOf("\nQuestion: ")]
+        .filter((position) => position >= 0);
+      text = text.slice(0, Math.min(text.length, ...end));
+    }
+    return { number: Number(header[1]), text };
+  });
+}
+
+// List items and paragraphs start new sentences; within them, a sentence
+// ends at . ! or ? followed by a capitalized word, unless the period belongs
+// to a number or a single letter, as in "clause 4. The" or "e.g. This"
+// Markers like "4.", "4.2", "(b)" or "-" at the start of a line
+const LIST_MARKER = String.raw`\s*(?:\d+(?:\.\d+)+[.)]?|\d+[.)]|\(?[a-z]{1,3}\)|[-*\u2022])\s`;
+
+function splitSentences(text: string) {
+  return text
+    .split(new RegExp(String.raw`\n\s*\n|\n(?=${LIST_MARKER})`, "i"))
+    .flatMap((block) => block
+      .replace(new RegExp(`^${LIST_MARKER}`, "i"), "")
+      .replace(/\s+/g, " ")
+      .split(/(?<=[.!?])(?<!(?:^|[\s(])(?:\d+(?:\.\d+)*|[a-z]|e\.g|i\.e|etc|vs|no)\.)\s+(?=["'(]?[A-Z])/i))
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => significantWords(sentence).length > 0);
+}
+
+// A sentence counts as supported when at least half of its words appear in the sources
+function mockGroundedness(prompt: string) {
+  const [sourceText, answerText = ""] = prompt.split("Answer sentences:");
+  const sourceWords = new Set(significantWords(sourceText));
+
+  return JSON.stringify({
+    verdicts: [...answerText.matchAll(/^(\d+)\. (.*)$/gm)].map(([, number, text]) => {
+      const words = significantWords(text);
+      return {
+        sentence: Number(number),
+        supported: words.filter((word) => sourceWords.has(word)).length >= words.length / 2,
+      };
+    }),
+  });
+}
+
+// Longer words only, so stop words like "is" don't count as a match
+function significantWords(text: string) {
+  return text.toLowerCase().match(/[a-z0-9]{4,}/g) ?? [];
+}
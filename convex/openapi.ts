@@ -0,0 +1,325 @@
+// OpenAPI description of the /v1 REST API, served at /v1/openapi.json.
+// Keep it in sync with the routes in router.ts.
+
+const idParameter = (description: string) => ({
+  name: "id",
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string" },
+});
+
+const paginationParameters = [
+  {
+    name: "limit",
+    in: "query",
+    description: "Items per page",
+    schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+  },
+  {
+    name: "cursor",
+    in: "query",
+    description: "`nextCursor` from the previous page",
+    schema: { type: "string" },
+  },
+];
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+const jsonContent = (schema: object) => ({ "application/json": { schema } });
+
+const dataOf = (ref: string) => ({
+  type: "object",
+  required: ["data"],
+  properties: { data: { $ref: ref } },
+});
+
+const pageOf = (ref: string) => ({
+  type: "object",
+  required: ["data", "nextCursor"],
+  properties: {
+    data: { type: "array", items: { $ref: ref } },
+    nextCursor: { type: ["string", "null"], description: "Null on the last page" },
+  },
+});
+
+const documentResult = {
+  type: "object",
+  required: ["data", "duplicate"],
+  properties: {
+    data: { $ref: "#/components/schemas/Document" },
+    duplicate: { type: "boolean" },
+  },
+};
+
+const rateLimited = errorResponse(
+  "Rate limited (`rate_limited`, with a Retry-After header) or over a daily token quota (`quota_exceeded`)",
+);
+
+const authErrors = {
+  401: errorResponse("Missing or unknown API key"),
+  403: errorResponse("The API key doesn't have the required scope"),
+};
+
+export const openApiSpec = {
+  openapi: "3.1.0",
+  info: {
+    title: "Document Q&A API",
+    version: "1.0.0",
+    description:
+      "Manage a workspace's documents and ask questions about them. Requests act as the API key's " +
+      "owner in the key's workspace. Read keys can list documents and ask questions; ingest keys " +
+      "can also add and delete documents.",
+  },
+  servers: [{ url: "/" }],
+  security: [{ apiKey: [] }],
+  paths: {
+    "/v1/documents": {
+      get: {
+        summary: "List documents",
+        description: "The workspace's documents, newest first.",
+        parameters: paginationParameters,
+        responses: {
+          200: { description: "A page of documents", content: jsonContent(pageOf("#/components/schemas/Document")) },
+          422: errorResponse("Invalid pagination parameters"),
+          ...authErrors,
+        },
+      },
+      post: {
+        summary: "Add a document",
+        description:
+          "Uploads a file, or fetches one from a URL, and queues it for processing. If the workspace " +
+          "already has a document with the same content, that document is returned instead. " +
+          "Requires an ingest key.",
+        requestBody: {
+          required: true,
+          content: {
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                required: ["file"],
+                properties: {
+                  file: { type: "string", format: "binary", description: "PDF, HTML or plain text, up to 20 MB" },
+                  title: { type: "string", description: "Defaults to the file name" },
+                },
+              },
+            },
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["url"],
+                properties: { url: { type: "string", format: "uri" } },
+              },
+            },
+          },
+        },
+        responses: {
+          201: { description: "Document added", content: jsonContent(documentResult) },
+          200: { description: "The workspace already has this content", content: jsonContent(documentResult) },
+          400: errorResponse("The file couldn't be fetched or is too large"),
+          422: errorResponse("Invalid request body"),
+          429: rateLimited,
+          ...authErrors,
+        },
+      },
+    },
+    "/v1/documents/{id}": {
+      parameters: [idParameter("Document id")],
+      get: {
+        summary: "Get a document",
+        description: "Includes processing status and progress, so it can be polled after adding a document.",
+        responses: {
+          200: { description: "The document", content: jsonContent(dataOf("#/components/schemas/Document")) },
+          404: errorResponse("No such document in the workspace"),
+          ...authErrors,
+        },
+      },
+      delete: {
+        summary: "Delete a document",
+        description: "Requires an ingest key.",
+        responses: {
+          204: { description: "Document deleted" },
+          404: errorResponse("No such document in the workspace"),
+          ...authErrors,
+        },
+      },
+    },
+    "/v1/queries": {
+      get: {
+        summary: "List queries",
+        description: "Questions asked by the key's owner in the workspace, newest first.",
+        parameters: paginationParameters,
+        responses: {
+          200: { description: "A page of queries", content: jsonContent(pageOf("#/components/schemas/Query")) },
+          422: errorResponse("Invalid pagination parameters"),
+          ...authErrors,
+        },
+      },
+      post: {
+        summary: "Ask a question",
+        description: "Answers a question from the workspace's documents. Responds once the answer is complete. " +
+          "Repeated questions about unchanged documents may get a cached answer, unless `bypassCache` is set.",
+        requestBody: {
+          required: true,
+          content: jsonContent({
+            type: "object",
+            required: ["query"],
+            properties: {
+              query: { type: "string" },
+              scope: { $ref: "#/components/schemas/QueryScope" },
+              bypassCache: { type: "boolean", description: "Generate a fresh answer even if one is cached" },
+            },
+          }),
+        },
+        responses: {
+          201: { description: "The answered query", content: jsonContent(dataOf("#/components/schemas/Query")) },
+          422: errorResponse("Invalid request body, or the workspace has no documents"),
+          429: rateLimited,
+          500: errorResponse("The question couldn't be answered"),
+          ...authErrors,
+        },
+      },
+    },
+    "/v1/queries/{id}": {
+      parameters: [idParameter("Query id")],
+      get: {
+        summary: "Get a query",
+        responses: {
+          200: { description: "The query", content: jsonContent(dataOf("#/components/schemas/Query")) },
+          404: errorResponse("No such query by the key's owner in the workspace"),
+          ...authErrors,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: "http", scheme: "bearer", description: "An API key from the app's Settings tab" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: {
+                type: "string",
+                examples: ["unauthorized", "forbidden", "not_found", "invalid_request", "document_rejected", "no_documents", "rate_limited", "quota_exceeded", "query_failed"],
+              },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+      Document: {
+        type: "object",
+        required: ["id", "createdAt", "title", "fileType", "fileSize", "tags", "version"],
+        properties: {
+          id: { type: "string" },
+          createdAt: { type: "number", description: "Milliseconds since the epoch" },
+          title: { type: "string" },
+          fileType: { type: "string" },
+          fileSize: { type: "integer" },
+          status: {
+            type: "string",
+            enum: ["queued", "extracting", "chunking", "embedding", "ready", "failed"],
+            description: "Unset on documents added before status tracking, which are ready",
+          },
+          progress: { type: "number", minimum: 0, maximum: 1 },
+          processingError: { type: "string" },
+          attempts: { type: "integer" },
+          processedAt: { type: "number" },
+          chunking: {
+            type: "object",
+            properties: {
+              strategy: { type: "string", enum: ["fixed", "sentence", "section", "tokens"] },
+              chunkSize: { type: "integer" },
+              overlap: { type: "integer" },
+            },
+          },
+          chunkCount: { type: "integer" },
+          pageCount: { type: "integer" },
+          headingCount: { type: "integer" },
+          tags: { type: "array", items: { type: "string" } },
+          sourceUrl: { type: "string" },
+          version: { type: "integer" },
+          versionOf: { type: "string", description: "The first version's id" },
+          previousVersionId: { type: "string" },
+          supersededBy: { type: "string", description: "Set when a newer version exists" },
+        },
+      },
+      QueryScope: {
+        type: "object",
+        description: "Limits the documents searched. Every filter that is set must match.",
+        properties: {
+          documentIds: { type: "array", items: { type: "string" } },
+          tags: { type: "array", items: { type: "string" }, description: "Documents with any of these tags" },
+          fileType: { type: "string" },
+          uploadedAfter: { type: "number" },
+          uploadedBefore: { type: "number" },
+        },
+      },
+      Source: {
+        type: "object",
+        required: ["documentId", "documentTitle", "relevantChunk", "confidence", "startIndex", "endIndex"],
+        properties: {
+          documentId: { type: "string" },
+          documentTitle: { type: "string" },
+          relevantChunk: { type: "string" },
+          confidence: { type: "number" },
+          startIndex: { type: "integer" },
+          endIndex: { type: "integer" },
+          pageNumber: { type: "integer" },
+          sectionPath: { type: "array", items: { type: "string" } },
+        },
+      },
+      Query: {
+        type: "object",
+        required: ["id", "createdAt", "query", "status", "answer", "sources", "abstained", "processingTime"],
+        properties: {
+          id: { type: "string" },
+          createdAt: { type: "number" },
+          query: { type: "string" },
+          status: { type: "string", enum: ["retrieving", "generating", "grading", "complete", "failed"] },
+          answer: { type: "string" },
+          sources: { type: "array", items: { $ref: "#/components/schemas/Source" } },
+          abstained: { type: "boolean", description: "True when the documents didn't contain an answer" },
+          groundedness: {
+            type: "object",
+            properties: {
+              score: { type: "number" },
+              level: { type: "string", enum: ["high", "medium", "low"] },
+              unsupportedSentences: { type: "array", items: { type: "integer" } },
+            },
+          },
+          scope: { $ref: "#/components/schemas/QueryScope" },
+          conversationId: { type: "string" },
+          processingTime: { type: "number", description: "Milliseconds" },
+          usage: {
+            type: "object",
+            description: "Tokens used by every model call made for the query",
+            properties: {
+              promptTokens: { type: "integer" },
+              completionTokens: { type: "integer" },
+            },
+          },
+          error: { type: "string" },
+          cached: {
+            type: "object",
+            description: "Set when the answer was reused from an earlier query instead of generated",
+            properties: {
+              answeredAt: { type: "number", description: "When the reused answer was generated" },
+              similarQuestion: { type: "boolean", description: "Reused from a differently worded question" },
+            },
+          },
+        },
+      },
+    },
+  },
+};
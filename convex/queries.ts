@@ -1,65 +1,109 @@
-import { v } from "convex/values";
-import { action, mutation, query, internalMutation } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { action, mutation, query, internalAction, internalMutation, internalQuery, ActionCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import { api, internal } from "./_generated/api";
-import OpenAI from "openai";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { answerSentenceValidator, groundednessValidator, queryScopeValidator, queryStatusValidator, Source, sourceValidator, tokenUsageValidator } from "./schema";
+import { findCachedAnswer, getAnswerCacheKey } from "./answerCache";
+import { hasEnoughEvidence, searchRelevantSources } from "./retrieval";
+import { ChatRequest, createUsageCounter, getLlmProvider, ModelSettings, TokenUsage } from "./llm";
+import { rateLimitMessage, requireRateLimit } from "./rateLimits";
+import { DEFAULT_MODEL_SETTINGS } from "./settings";
+import { requireQuota } from "./usage";
+import { getWorkspaceAccess, requireWorkspaceAccess } from "./workspaces";
 
-const openai = new OpenAI({
-  baseURL: process.env.CONVEX_OPENAI_BASE_URL,
-  apiKey: process.env.CONVEX_OPENAI_API_KEY,
-});
+// How often a streaming answer is written back to its query record
+const STREAM_FLUSH_INTERVAL_MS = 200;
+// Earlier conversation turns included in the prompt, in estimated tokens
+const HISTORY_TOKEN_BUDGET = 1500;
+// Minimum share of supported answer sentences for each confidence level
+const HIGH_GROUNDEDNESS = 0.8;
+const MEDIUM_GROUNDEDNESS = 0.5;
+const MAX_EXPORTED_QUERIES = 100;
+const BACKFILL_BATCH_SIZE = 100;
 
-export const processQuery = action({
+// Returned instead of an answer when the sources don't contain one
+export const NOT_FOUND_ANSWER = "I couldn't find an answer to this in your documents.";
+
+// Starts answering a question in the background. The client subscribes to
+// the returned query record with `getQuery` to see sources and the answer
+// as they arrive.
+export const submitQuery = mutation({
   args: {
+    workspaceId: v.id("workspaces"),
     query: v.string(),
+    // Continues an existing conversation; a new one is started when omitted
+    conversationId: v.optional(v.id("conversations")),
+    scope: v.optional(queryScopeValidator),
+    // Generates a fresh answer even if one is cached
+    bypassCache: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    const startTime = Date.now();
-    
-    // Get user documents
-    const documents = await ctx.runQuery(api.documents.listDocuments);
-    
-    if (documents.length === 0) {
+    const { userId } = await requireWorkspaceAccess(ctx, args.workspaceId);
+    await requireQuota(ctx, args.workspaceId, userId);
+    await requireRateLimit(ctx, userId, "query");
+
+    const document = await ctx.db
+      .query("documents")
+      .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+      .first();
+    if (!document) {
       throw new Error("No documents available. Please upload some documents first.");
     }
 
-    // Find relevant document chunks using semantic search
-    const relevantSources = await findRelevantSources(ctx, args.query, documents);
-    
-    // Generate response using LLM
-    const response = await generateResponse(args.query, relevantSources);
-    
-    const processingTime = Date.now() - startTime;
-    
-    // Save query and response
-    await ctx.runMutation(internal.queries.saveQuery, {
+    let conversationId = args.conversationId;
+    if (conversationId) {
+      const conversation = await ctx.db.get(conversationId);
+      if (!conversation || conversation.userId !== userId || conversation.workspaceId !== args.workspaceId) {
+        throw new Error("Conversation not found or unauthorized");
+      }
+      await ctx.db.patch(conversationId, { updatedAt: Date.now() });
+    } else {
+      conversationId = await ctx.db.insert("conversations", {
+        userId,
+        workspaceId: args.workspaceId,
+        title: args.query.length > 60 ? `${args.query.slice(0, 57)}...` : args.query,
+        updatedAt: Date.now(),
+      });
+    }
+
+    const queryId = await ctx.db.insert("queries", {
+      userId,
+      workspaceId: args.workspaceId,
       query: args.query,
-      response: response.answer,
-      sources: relevantSources,
-      processingTime,
+      response: "",
+      sources: [],
+      processingTime: 0,
+      status: "retrieving",
+      conversationId,
+      scope: args.scope,
+      searchText: args.query,
     });
 
-    return {
-      answer: response.answer,
-      sources: relevantSources,
-      processingTime,
-    };
+    await ctx.scheduler.runAfter(0, internal.queries.runQuery, { queryId, bypassCache: args.bypassCache });
+
+    return { queryId, conversationId };
+  },
+});
+
+export const runQuery = internalAction({
+  args: {
+    queryId: v.id("queries"),
+    bypassCache: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await answerQuery(ctx, args.queryId, { bypassCache: args.bypassCache });
   },
 });
 
-export const saveQuery = internalMutation({
+// Answers a question in a single call, for clients that don't subscribe to updates
+export const processQuery = action({
   args: {
+    workspaceId: v.id("workspaces"),
     query: v.string(),
-    response: v.string(),
-    sources: v.array(v.object({
-      documentId: v.id("documents"),
-      documentTitle: v.string(),
-      relevantChunk: v.string(),
-      confidence: v.number(),
-      startIndex: v.number(),
-      endIndex: v.number(),
-    })),
-    processingTime: v.number(),
+    scope: v.optional(queryScopeValidator),
+    bypassCache: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
@@ -67,78 +111,535 @@ export const saveQuery = internalMutation({
       throw new Error("Not authenticated");
     }
 
-    return await ctx.db.insert("queries", {
+    const role = await ctx.runQuery(internal.workspaces.getMemberRole, { workspaceId: args.workspaceId, userId });
+    if (!role) {
+      throw new Error("Workspace not found or unauthorized");
+    }
+
+    const quotaError = await ctx.runQuery(internal.usage.checkQuota, { workspaceId: args.workspaceId, userId });
+    if (quotaError) {
+      throw new Error(quotaError);
+    }
+    const retryAfterMs = await ctx.runMutation(internal.rateLimits.takeRateLimitToken, { userId, name: "query" });
+    if (retryAfterMs !== null) {
+      throw new Error(rateLimitMessage(retryAfterMs));
+    }
+    
+    const hasDocuments = await ctx.runQuery(internal.documents.hasDocuments, { workspaceId: args.workspaceId });
+    
+    if (!hasDocuments) {
+      throw new Error("No documents available. Please upload some documents first.");
+    }
+
+    const queryId: Id<"queries"> = await ctx.runMutation(internal.queries.createQuery, {
       userId,
+      workspaceId: args.workspaceId,
+      query: args.query,
+      scope: args.scope,
+    });
+
+    return await answerQuery(ctx, queryId, { bypassCache: args.bypassCache });
+  },
+});
+
+export const createQuery = internalMutation({
+  args: {
+    userId: v.id("users"),
+    workspaceId: v.id("workspaces"),
+    query: v.string(),
+    scope: v.optional(queryScopeValidator),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("queries", {
+      userId: args.userId,
+      workspaceId: args.workspaceId,
       query: args.query,
-      response: args.response,
-      sources: args.sources,
-      processingTime: args.processingTime,
+      response: "",
+      sources: [],
+      processingTime: 0,
+      status: "retrieving",
+      scope: args.scope,
+      searchText: args.query,
     });
   },
 });
 
+export const getQueryForProcessing = internalQuery({
+  args: {
+    queryId: v.id("queries"),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.queryId);
+  },
+});
+
+export const updateQuery = internalMutation({
+  args: {
+    queryId: v.id("queries"),
+    status: queryStatusValidator,
+    response: v.optional(v.string()),
+    sources: v.optional(v.array(sourceValidator)),
+    retrievalQuery: v.optional(v.string()),
+    answerSentences: v.optional(v.array(answerSentenceValidator)),
+    abstained: v.optional(v.boolean()),
+    groundedness: v.optional(groundednessValidator),
+    processingTime: v.optional(v.number()),
+    retrievalTime: v.optional(v.number()),
+    generationTime: v.optional(v.number()),
+    error: v.optional(v.string()),
+    usage: v.optional(tokenUsageValidator),
+    cached: v.optional(v.object({ answeredAt: v.number(), similarQuestion: v.boolean() })),
+    searchText: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { queryId, ...fields } = args;
+    await ctx.db.patch(queryId, fields);
+  },
+});
+
+export const getQuery = query({
+  args: {
+    queryId: v.id("queries"),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return null;
+    }
+
+    const record = await ctx.db.get(args.queryId);
+    if (!record || record.userId !== userId) {
+      return null;
+    }
+
+    return record;
+  },
+});
+
+// The signed-in user's own questions in a workspace, newest first, or the best
+// matches for `search` among their questions and answers. Other members'
+// questions stay private to them.
 export const getQueryHistory = query({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    workspaceId: v.id("workspaces"),
+    search: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const search = args.search?.trim();
+    const page = search
+      ? await ctx.db
+        .query("queries")
+        .withSearchIndex("search_text", (q) =>
+          q.search("searchText", search).eq("userId", access.userId).eq("workspaceId", args.workspaceId))
+        .filter((q) => q.eq(q.field("evaluationRunId"), undefined))
+        .paginate(args.paginationOpts)
+      : await ctx.db
+        .query("queries")
+        .withIndex("by_user_and_workspace", (q) => q.eq("userId", access.userId).eq("workspaceId", args.workspaceId))
+        .order("desc")
+        .filter((q) => q.eq(q.field("evaluationRunId"), undefined))
+        .paginate(args.paginationOpts);
+
+    return { ...page, page: page.page.map(toHistoryEntry) };
+  },
+});
+
+// Full records for the history entries selected for export
+export const getQueriesForExport = query({
+  args: {
+    queryIds: v.array(v.id("queries")),
+  },
+  handler: async (ctx, args) => {
     const userId = await getAuthUserId(ctx);
     if (!userId) {
-      return [];
+      throw new Error("Not authenticated");
     }
+    if (args.queryIds.length > MAX_EXPORTED_QUERIES) {
+      throw new Error(`Select at most ${MAX_EXPORTED_QUERIES} questions to export`);
+    }
+
+    const records = await Promise.all(args.queryIds.map((queryId) => ctx.db.get(queryId)));
+    return records.filter((record): record is Doc<"queries"> => record !== null && record.userId === userId);
+  },
+});
 
+// The user's full query records a page at a time, for the HTTP API
+export const listQueryHistoryPage = internalQuery({
+  args: {
+    userId: v.id("users"),
+    workspaceId: v.id("workspaces"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
     return await ctx.db
       .query("queries")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .withIndex("by_user_and_workspace", (q) => q.eq("userId", args.userId).eq("workspaceId", args.workspaceId))
       .order("desc")
-      .take(20);
+      .filter((q) => q.eq(q.field("evaluationRunId"), undefined))
+      .paginate(args.paginationOpts);
   },
 });
 
-async function findRelevantSources(ctx: any, query: string, documents: any[]) {
-  const relevantSources = [];
-  
-  // Use simple text search for now (in production, you'd use vector embeddings)
-  for (const doc of documents) {
-    if (!doc.chunks) continue;
-    
-    for (const chunk of doc.chunks) {
-      const similarity = calculateTextSimilarity(query.toLowerCase(), chunk.content.toLowerCase());
-      
-      if (similarity > 0.1) { // Threshold for relevance
-        relevantSources.push({
-          documentId: doc._id,
-          documentTitle: doc.title,
-          relevantChunk: chunk.content,
-          confidence: similarity,
-          startIndex: chunk.startIndex,
-          endIndex: chunk.endIndex,
-        });
+// Makes queries asked before history search searchable. Run once with
+//   npx convex run queries:backfillSearchText
+export const backfillSearchText = internalMutation({
+  args: {
+    paginationOpts: v.optional(paginationOptsValidator),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("queries")
+      .paginate(args.paginationOpts ?? { numItems: BACKFILL_BATCH_SIZE, cursor: null });
+
+    for (const record of page.page) {
+      if (record.searchText === undefined) {
+        await ctx.db.patch(record._id, { searchText: toSearchText(record.query, record.response) });
       }
     }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.queries.backfillSearchText, {
+        paginationOpts: { numItems: BACKFILL_BATCH_SIZE, cursor: page.continueCursor },
+      });
+    }
+  },
+});
+
+// `getQuery` for the HTTP API, which passes the id as a string
+export const getUserQuery = internalQuery({
+  args: {
+    userId: v.id("users"),
+    workspaceId: v.id("workspaces"),
+    queryId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const queryId = ctx.db.normalizeId("queries", args.queryId);
+    const record = queryId && await ctx.db.get(queryId);
+    if (!record || record.userId !== args.userId || record.workspaceId !== args.workspaceId) {
+      return null;
+    }
+    return record;
+  },
+});
+
+// Runs retrieval and generation for a query record, writing sources as soon
+// as retrieval finishes and the answer as it streams in
+export async function answerQuery(
+  ctx: ActionCtx,
+  queryId: Id<"queries">,
+  // Skips looking up a cached answer; the fresh answer is still cached
+  options: { bypassCache?: boolean } = {},
+): Promise<{
+  answer: string;
+  sources: Source[];
+  abstained: boolean;
+  groundedness?: Groundedness;
+  processingTime: number;
+  // The part of `processingTime` spent finding sources; 0 for cached answers
+  retrievalTime: number;
+  usage: TokenUsage;
+}> {
+  const startTime = Date.now();
+  const usage = createUsageCounter();
+
+  const record = await ctx.runQuery(internal.queries.getQueryForProcessing, { queryId });
+  if (!record) {
+    throw new Error("Query not found");
+  }
+  const workspaceId = record.workspaceId;
+
+  try {
+    if (!workspaceId) {
+      throw new Error("Query has no workspace to search");
+    }
+
+    const settings = await ctx.runQuery(internal.settings.getModelSettings, { workspaceId });
+    const priorTurns = await ctx.runQuery(internal.conversations.getPriorTurns, { queryId });
+    const history = selectHistory(priorTurns);
+
+    const documentIds = record.scope
+      ? await ctx.runQuery(internal.retrieval.resolveScope, { workspaceId, scope: record.scope })
+      : null;
+
+    // Answers to follow-up questions depend on the conversation, so only
+    // standalone questions are cached
+    const cacheKey = priorTurns.length === 0
+      ? await getAnswerCacheKey(ctx, workspaceId, record.query, documentIds, settings, usage.add)
+      : null;
+    const cached = cacheKey && !options.bypassCache ? await findCachedAnswer(ctx, cacheKey) : null;
+    if (cached) {
+      const processingTime = Date.now() - startTime;
+      await ctx.runMutation(internal.queries.updateQuery, {
+        queryId,
+        status: "complete",
+        response: cached.response,
+        sources: cached.sources,
+        answerSentences: cached.answerSentences,
+        groundedness: cached.groundedness,
+        processingTime,
+        usage: usage.total,
+        cached: { answeredAt: cached.answeredAt, similarQuestion: cached.similarQuestion },
+        searchText: toSearchText(record.query, cached.response),
+      });
+
+      return {
+        answer: cached.response,
+        sources: cached.sources,
+        abstained: false,
+        groundedness: cached.groundedness,
+        processingTime,
+        retrievalTime: 0,
+        usage: usage.total,
+      };
+    }
+
+    // Follow-up questions like "what about X?" only make sense with the
+    // earlier turns, so retrieve with a standalone version of the question
+    const retrievalQuery = priorTurns.length > 0
+      ? await rewriteFollowUpQuestion(record.query, history, settings, usage.add)
+      : record.query;
+
+    // Find relevant document chunks using hybrid keyword and semantic search
+    const relevantSources = await searchRelevantSources(ctx, workspaceId, retrievalQuery, documentIds ?? undefined);
+    const retrievalTime = Date.now() - startTime;
+
+    await ctx.runMutation(internal.queries.updateQuery, {
+      queryId,
+      status: "generating",
+      sources: relevantSources,
+      retrievalQuery: retrievalQuery !== record.query ? retrievalQuery : undefined,
+      retrievalTime,
+    });
+
+    // Generate response using LLM, streaming partial answers into the record
+    let lastFlush = Date.now();
+    const response = await generateResponse(record.query, relevantSources, {
+      settings,
+      history,
+      onUsage: usage.add,
+      onPartialAnswer: async (partialAnswer) => {
+        if (Date.now() - lastFlush < STREAM_FLUSH_INTERVAL_MS) return;
+        lastFlush = Date.now();
+        await ctx.runMutation(internal.queries.updateQuery, {
+          queryId,
+          status: "generating",
+          response: partialAnswer,
+        });
+      },
+    });
+
+    let groundedness: Groundedness | undefined;
+    if (!response.abstained) {
+      await ctx.runMutation(internal.queries.updateQuery, {
+        queryId,
+        status: "grading",
+        response: response.answer,
+        answerSentences: response.sentences,
+      });
+      // A failed check leaves the answer ungraded rather than failing the query
+      groundedness = await gradeGroundedness(response.sentences, relevantSources, settings, usage.add)
+        .catch(() => undefined);
+    }
+
+    const processingTime = Date.now() - startTime;
+
+    await ctx.runMutation(internal.queries.updateQuery, {
+      queryId,
+      status: "complete",
+      response: response.answer,
+      answerSentences: response.abstained ? undefined : response.sentences,
+      abstained: response.abstained || undefined,
+      groundedness,
+      processingTime,
+      generationTime: processingTime - retrievalTime,
+      usage: usage.total,
+      searchText: toSearchText(record.query, response.answer),
+    });
+
+    // Abstentions and poorly supported answers are worth asking again
+    if (cacheKey && !response.abstained && groundedness?.level !== "low") {
+      await ctx.runMutation(internal.answerCache.cacheAnswer, {
+        workspaceId,
+        contextKey: cacheKey.contextKey,
+        questionKey: cacheKey.questionKey,
+        embedding: cacheKey.embedding,
+        queryId,
+        documentIds: relevantSources.map((source) => source.documentId),
+      });
+    }
+
+    return {
+      answer: response.answer,
+      sources: relevantSources,
+      abstained: response.abstained,
+      groundedness,
+      processingTime,
+      retrievalTime,
+      usage: usage.total,
+    };
+  } catch (error: any) {
+    await ctx.runMutation(internal.queries.updateQuery, {
+      queryId,
+      status: "failed",
+      error: error.message || "Failed to process query",
+      processingTime: Date.now() - startTime,
+      usage: usage.total,
+    });
+    throw error;
+  } finally {
+    // Failed queries still count any model calls made before the failure
+    if (workspaceId) {
+      await ctx.runMutation(internal.usage.recordUsage, {
+        workspaceId,
+        userId: record.userId,
+        ...usage.total,
+        queries: 1,
+      });
+      await ctx.runMutation(internal.analytics.recordQueryMetrics, { queryId });
+    }
   }
-  
-  // Sort by confidence and take top 5
-  return relevantSources
-    .sort((a, b) => b.confidence - a.confidence)
-    .slice(0, 5);
 }
 
-async function generateResponse(query: string, sources: any[]) {
-  const context = sources
-    .map((source, index) => `[Source ${index + 1}] ${source.documentTitle}: ${source.relevantChunk}`)
+// Enough of a query record to list it in history; `getQuery` loads the rest
+function toHistoryEntry(record: Doc<"queries">) {
+  return {
+    _id: record._id,
+    _creationTime: record._creationTime,
+    query: record.query,
+    response: record.response,
+    status: record.status,
+    error: record.error,
+    abstained: record.abstained,
+    confidence: record.groundedness?.level,
+    sourceCount: record.sources.length,
+    processingTime: record.processingTime,
+    conversationId: record.conversationId,
+  };
+}
+
+function toSearchText(question: string, answer: string) {
+  return answer ? `${question}\n${answer}` : question;
+}
+
+type Turn = { question: string; answer: string };
+
+// Most recent turns that fit in the history token budget, oldest first
+function selectHistory(turns: Turn[]) {
+  const selected: Turn[] = [];
+  let tokens = 0;
+  for (const turn of [...turns].reverse()) {
+    tokens += estimateTokens(turn.question) + estimateTokens(turn.answer);
+    if (tokens > HISTORY_TOKEN_BUDGET) break;
+    selected.unshift(turn);
+  }
+  return selected;
+}
+
+// Rough estimate of ~4 characters per token for English text
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function formatHistory(history: Turn[]) {
+  return history
+    .map((turn) => `User: ${turn.question}\nAssistant: ${turn.answer}`)
     .join('\n\n');
+}
+
+async function rewriteFollowUpQuestion(
+  question: string,
+  history: Turn[],
+  settings: ModelSettings,
+  onUsage?: (usage: TokenUsage) => void,
+) {
+  if (history.length === 0) {
+    return question;
+  }
+
+  const rewritten = await getLlmProvider().complete({
+    messages: [
+      {
+        role: "system",
+        content: "Rewrite the user's latest question as a standalone question that can be understood without the conversation. Resolve pronouns and references using the conversation. Reply with the rewritten question only."
+      },
+      {
+        role: "user",
+        content: `Conversation:\n${formatHistory(history)}\n\nLatest question: ${question}`
+      }
+    ],
+    settings: { ...settings, temperature: 0 },
+    onUsage,
+  });
+
+  return rewritten.trim() || question;
+}
+
+type AnswerSentence = Infer<typeof answerSentenceValidator>;
+type Groundedness = Infer<typeof groundednessValidator>;
+
+// Structured output: every answer sentence lists the sources it relies on
+const CITED_ANSWER_FORMAT = {
+  name: "cited_answer",
+  schema: {
+    type: "object",
+    properties: {
+      sentences: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            text: { type: "string" },
+            sources: { type: "array", items: { type: "integer" } },
+          },
+          required: ["text", "sources"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["sentences"],
+    additionalProperties: false,
+  },
+};
+
+// Streams the completion when `onPartialAnswer` is given, calling it with
+// the answer text so far after each delta. `onUsage` receives the tokens
+// used, unless no model call was needed.
+export async function generateResponse(
+  query: string,
+  sources: Array<{ documentTitle: string; relevantChunk: string; scores?: { semantic?: number } }>,
+  options: {
+    settings?: ModelSettings;
+    history?: Turn[];
+    onPartialAnswer?: (partialAnswer: string) => Promise<void>;
+    onUsage?: (usage: TokenUsage) => void;
+  } = {},
+) {
+  const { settings = DEFAULT_MODEL_SETTINGS, history = [], onPartialAnswer, onUsage } = options;
+
+  // Without close enough evidence the model could only guess, so don't ask it
+  if (!hasEnoughEvidence(sources)) {
+    return { answer: NOT_FOUND_ANSWER, sentences: [], abstained: true };
+  }
+
+  const context = formatSources(sources);
 
   const prompt = `You are a helpful assistant that answers questions based on provided document sources. 
 Always reference the specific sources you use in your answer.
 
 Context from documents:
 ${context}
-
+${history.length > 0 ? `\nEarlier in this conversation:\n${formatHistory(history)}\n` : ''}
 Question: ${query}
 
-Please provide a comprehensive answer based on the provided sources. If you reference information, mention which source number you're using (e.g., "According to Source 1...").`;
+Please provide a comprehensive answer based on the provided sources. Split the answer into sentences, and for each sentence list the numbers of the sources it is based on (e.g. [1] for Source 1). Use an empty list for sentences that don't rely on a source. If the sources don't contain the information needed to answer the question, return no sentences at all.`;
 
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
+  const request: ChatRequest = {
     messages: [
       {
         role: "system",
@@ -149,22 +650,141 @@ Please provide a comprehensive answer based on the provided sources. If you refe
         content: prompt
       }
     ],
-    temperature: 0.3,
+    settings,
+    responseFormat: CITED_ANSWER_FORMAT,
+    onUsage,
+  };
+
+  const provider = getLlmProvider();
+  let content = "";
+  if (!onPartialAnswer) {
+    content = await provider.complete(request);
+  } else {
+    for await (const delta of provider.stream(request)) {
+      content += delta;
+      await onPartialAnswer(partialAnswerText(content));
+    }
+  }
+
+  const sentences = parseCitedAnswer(content, sources.length);
+  if (sentences.length === 0) {
+    return { answer: NOT_FOUND_ANSWER, sentences, abstained: true };
+  }
+
+  return {
+    answer: sentences.map((sentence) => sentence.text).join(" "),
+    sentences,
+    abstained: false,
+  };
+}
+
+const GROUNDEDNESS_FORMAT = {
+  name: "groundedness",
+  schema: {
+    type: "object",
+    properties: {
+      verdicts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            sentence: { type: "integer" },
+            supported: { type: "boolean" },
+          },
+          required: ["sentence", "supported"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["verdicts"],
+    additionalProperties: false,
+  },
+};
+
+// Asks the model which answer sentences the retrieved chunks actually back
+// up. Sentences without a verdict count as unsupported.
+async function gradeGroundedness(
+  sentences: AnswerSentence[],
+  sources: Source[],
+  settings: ModelSettings,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<Groundedness> {
+  const answer = sentences.map((sentence, index) => `${index + 1}. ${sentence.text}`).join('\n');
+
+  const content = await getLlmProvider().complete({
+    messages: [
+      {
+        role: "system",
+        content: "You check answers against their sources and flag claims the sources don't back up."
+      },
+      {
+        role: "user",
+        content: `Sources:\n${formatSources(sources)}\n\nAnswer sentences:\n${answer}\n\nFor each answer sentence, decide whether it is supported by the sources. A sentence is supported only if the sources state it or directly imply it.`
+      }
+    ],
+    settings: { ...settings, temperature: 0 },
+    responseFormat: GROUNDEDNESS_FORMAT,
+    onUsage,
   });
 
+  let verdicts: Array<{ sentence?: unknown; supported?: unknown }> = [];
+  try {
+    const parsed = JSON.parse(content).verdicts;
+    if (Array.isArray(parsed)) verdicts = parsed;
+  } catch {
+    // Unparseable output leaves every sentence unsupported
+  }
+
+  const supported = new Set(verdicts.filter((verdict) => verdict.supported === true).map((verdict) => verdict.sentence));
+  const unsupportedSentences = sentences.map((_, index) => index + 1).filter((index) => !supported.has(index));
+  const score = sentences.length ? 1 - unsupportedSentences.length / sentences.length : 0;
+
   return {
-    answer: completion.choices[0].message.content || "I couldn't generate a response.",
+    score,
+    level: score >= HIGH_GROUNDEDNESS ? "high" : score >= MEDIUM_GROUNDEDNESS ? "medium" : "low",
+    unsupportedSentences,
   };
 }
 
-// Simple text similarity calculation (in production, use proper embeddings)
-function calculateTextSimilarity(text1: string, text2: string): number {
-  const words1 = text1.split(/\s+/);
-  const words2 = text2.split(/\s+/);
-  
-  const commonWords = words1.filter(word => 
-    word.length > 3 && words2.includes(word)
-  );
-  
-  return commonWords.length / Math.max(words1.length, words2.length);
+function formatSources(sources: Array<{ documentTitle: string; relevantChunk: string }>) {
+  return sources
+    .map((source, index) => `[Source ${index + 1}] ${source.documentTitle}: ${source.relevantChunk}`)
+    .join('\n\n');
+}
+
+// Parses the model's structured answer, stripping citations of sources that
+// don't exist. Falls back to a single uncited sentence if the output isn't
+// valid JSON.
+function parseCitedAnswer(content: string, sourceCount: number): AnswerSentence[] {
+  let sentences: Array<{ text?: unknown; sources?: unknown }>;
+  try {
+    sentences = JSON.parse(content).sentences;
+    if (!Array.isArray(sentences)) throw new Error("Missing sentences");
+  } catch {
+    return content.trim() ? [{ text: content.trim(), sourceIndices: [] }] : [];
+  }
+
+  return sentences
+    .filter((sentence) => typeof sentence.text === "string" && sentence.text.trim())
+    .map((sentence) => ({
+      text: (sentence.text as string).trim(),
+      sourceIndices: [...new Set(Array.isArray(sentence.sources) ? sentence.sources : [])]
+        .filter((index): index is number => Number.isInteger(index) && index >= 1 && index <= sourceCount),
+    }));
+}
+
+// Pulls the sentence texts out of a partially streamed JSON answer
+function partialAnswerText(content: string) {
+  const texts = [];
+  for (const match of content.matchAll(/"text"\s*:\s*"((?:[^"\\]|\\.)*)("?)/g)) {
+    const [, raw, closed] = match;
+    // Drop a trailing incomplete escape sequence before decoding
+    const text = closed ? raw : raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+    try {
+      texts.push(JSON.parse(`"${text}"`));
+    } catch {
+      texts.push(text);
+    }
+  }
+  return texts.join(" ");
 }
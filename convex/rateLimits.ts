@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { internalMutation, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+
+// Token buckets: each request takes a token, buckets refill continuously up
+// to `capacity`, so short bursts are allowed but sustained rates are capped
+const RATE_LIMITS = {
+  // Questions, batches and HTTP API questions; each one calls the model
+  query: { capacity: 10, refillPerMinute: 10 },
+  // Upload URLs and documents added from a URL
+  upload: { capacity: 20, refillPerMinute: 20 },
+};
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+export const rateLimitNameValidator = v.union(v.literal("query"), v.literal("upload"));
+
+// For actions and HTTP routes. Returns how long to wait when the bucket is
+// empty, or null after taking a token.
+export const takeRateLimitToken = internalMutation({
+  args: {
+    userId: v.id("users"),
+    name: rateLimitNameValidator,
+  },
+  handler: async (ctx, args): Promise<number | null> => {
+    return await takeToken(ctx, args.userId, args.name);
+  },
+});
+
+export async function requireRateLimit(ctx: MutationCtx, userId: Id<"users">, name: RateLimitName) {
+  const retryAfterMs = await takeToken(ctx, userId, name);
+  if (retryAfterMs !== null) {
+    throw new Error(rateLimitMessage(retryAfterMs));
+  }
+}
+
+export function rateLimitMessage(retryAfterMs: number) {
+  return `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`;
+}
+
+async function takeToken(ctx: MutationCtx, userId: Id<"users">, name: RateLimitName) {
+  const { capacity, refillPerMinute } = RATE_LIMITS[name];
+  const now = Date.now();
+
+  const bucket = await ctx.db
+    .query("rateLimits")
+    .withIndex("by_user_and_name", (q) => q.eq("userId", userId).eq("name", name))
+    .unique();
+
+  const tokens = bucket
+    ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMinute / 60_000)
+    : capacity;
+  if (tokens < 1) {
+    return (1 - tokens) * 60_000 / refillPerMinute;
+  }
+
+  if (bucket) {
+    await ctx.db.patch(bucket._id, { tokens: tokens - 1, updatedAt: now });
+  } else {
+    await ctx.db.insert("rateLimits", { userId, name, tokens: tokens - 1, updatedAt: now });
+  }
+  return null;
+}
@@ -0,0 +1,345 @@
+import { v } from "convex/values";
+import { internalQuery, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { queryScopeValidator, Source } from "./schema";
+import { cosineSimilarity } from "./embeddings";
+import { getLlmProvider } from "./llm";
+import { getDocumentChunks } from "./chunks";
+
+// How many chunks each signal contributes before fusion
+const CANDIDATES_PER_SIGNAL = 20;
+export const MAX_SOURCES = 5;
+// Standard reciprocal rank fusion constant; damps the weight of the very top ranks
+const RRF_K = 60;
+const MIN_SEMANTIC_SCORE = 0.1;
+// Convex full-text search only considers the first 16 terms of a query
+const MAX_SEARCH_TERMS = 16;
+// Documents whose chunks are ranked for keyword matches
+const KEYWORD_DOCUMENTS = 10;
+// Larger scopes don't fit in a vector search filter and are applied to the
+// results instead, fetching as many as vector search allows
+const MAX_VECTOR_FILTER_DOCUMENTS = 64;
+const MAX_VECTOR_RESULTS = 256;
+
+type RankedChunk<DocumentId extends string> = {
+  key: string;
+  documentId: DocumentId;
+  documentTitle: string;
+  content: string;
+  startIndex: number;
+  endIndex: number;
+  pageNumber?: number;
+  sectionPath?: string[];
+  score: number;
+};
+
+type ChunkCandidate<DocumentId extends string> = Omit<RankedChunk<DocumentId>, "score">;
+
+// Whether any source is similar enough to the question to answer from.
+// Keyword hits alone don't count, since they match words rather than meaning.
+export function hasEnoughEvidence(sources: Array<{ scores?: { semantic?: number } }>) {
+  const { minEvidenceScore } = getLlmProvider();
+  return sources.some((source) => (source.scores?.semantic ?? 0) >= minEvidenceScore);
+}
+
+// Hybrid search over a workspace's stored documents: full-text hits from the
+// `search_content` index fused with vector search hits. `documentIds`
+// restricts the search to documents the caller has checked access to.
+export async function searchRelevantSources(
+  ctx: ActionCtx,
+  workspaceId: Id<"workspaces">,
+  query: string,
+  documentIds?: Id<"documents">[],
+): Promise<Source[]> {
+  if (documentIds?.length === 0) {
+    return [];
+  }
+
+  const [semantic, keyword]: RankedChunk<Id<"documents">>[][] = await Promise.all([
+    semanticSearch(ctx, workspaceId, query, documentIds),
+    ctx.runQuery(internal.retrieval.keywordSearch, { workspaceId, query, documentIds }),
+  ]);
+
+  return fuseRankings(semantic, keyword);
+}
+
+type SearchableDocument<DocumentId extends string> = {
+  _id: DocumentId;
+  title: string;
+  chunks?: Array<{
+    id: string;
+    content: string;
+    startIndex: number;
+    endIndex: number;
+    pageNumber?: number;
+    sectionPath?: string[];
+  }>;
+};
+
+type InMemoryIndex<DocumentId extends string> = {
+  candidates: ChunkCandidate<DocumentId>[];
+  embeddings: number[][];
+};
+
+// Embeds the chunks of documents that aren't stored, so they can be searched
+// with any number of questions without embedding them again
+export async function indexDocuments<DocumentId extends string>(
+  documents: SearchableDocument<DocumentId>[],
+): Promise<InMemoryIndex<DocumentId>> {
+  const candidates = documents.flatMap((doc) => toCandidates(doc));
+  const embeddings = await getLlmProvider().embed(candidates.map((chunk) => chunk.content));
+  return { candidates, embeddings };
+}
+
+// The same hybrid ranking for documents that aren't stored, scored in memory
+export async function findRelevantSources<DocumentId extends string>(
+  query: string,
+  index: InMemoryIndex<DocumentId>,
+) {
+  const { candidates, embeddings } = index;
+  const [queryEmbedding] = await getLlmProvider().embed([query]);
+
+  const semantic = candidates
+    .map((chunk, i) => ({ ...chunk, score: cosineSimilarity(queryEmbedding, embeddings[i]) }))
+    .filter((chunk) => chunk.score > MIN_SEMANTIC_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CANDIDATES_PER_SIGNAL);
+
+  const keyword = rankByBm25(query, candidates).slice(0, CANDIDATES_PER_SIGNAL);
+
+  return fuseRankings(semantic, keyword);
+}
+
+export const keywordSearch = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    query: v.string(),
+    documentIds: v.optional(v.array(v.id("documents"))),
+  },
+  handler: async (ctx, args) => {
+    const searchTerms = tokenize(args.query).slice(0, MAX_SEARCH_TERMS).join(" ");
+    if (!searchTerms) {
+      return [];
+    }
+
+    const results = ctx.db
+      .query("documents")
+      .withSearchIndex("search_content", (q) =>
+        q.search("content", searchTerms).eq("workspaceId", args.workspaceId)
+      );
+
+    let documents: Doc<"documents">[];
+    if (args.documentIds) {
+      const inScope = new Set(args.documentIds);
+      documents = [];
+      for await (const document of results) {
+        if (!inScope.has(document._id)) continue;
+        documents.push(document);
+        if (documents.length === KEYWORD_DOCUMENTS) break;
+      }
+    } else {
+      // Only the latest version of each document
+      documents = [];
+      for await (const document of results) {
+        if (document.supersededBy) continue;
+        documents.push(document);
+        if (documents.length === KEYWORD_DOCUMENTS) break;
+      }
+    }
+
+    // The index ranks whole documents, so rank their chunks with BM25
+    const candidates = [];
+    for (const doc of documents) {
+      const chunks = await getDocumentChunks(ctx, doc._id);
+      candidates.push(...chunks.map((chunk) => ({
+        key: chunk._id,
+        documentId: doc._id,
+        documentTitle: doc.title,
+        content: chunk.content,
+        startIndex: chunk.startIndex,
+        endIndex: chunk.endIndex,
+        pageNumber: chunk.pageNumber,
+        sectionPath: chunk.sectionPath,
+      })));
+    }
+    return rankByBm25(args.query, candidates).slice(0, CANDIDATES_PER_SIGNAL);
+  },
+});
+
+// The ids of the workspace's documents that match a query scope, or null when
+// the scope has no filters and every document should be searched
+export const resolveScope = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    scope: queryScopeValidator,
+  },
+  handler: async (ctx, args) => {
+    const { documentIds, tags, fileType, uploadedAfter, uploadedBefore } = args.scope;
+    if (!documentIds && !tags?.length && !fileType && uploadedAfter === undefined && uploadedBefore === undefined) {
+      return null;
+    }
+
+    const documents = documentIds
+      ? (await Promise.all(documentIds.map((id) => ctx.db.get(id)))).filter((doc) => doc !== null)
+      : await ctx.db
+        .query("documents")
+        .withIndex("by_workspace", (q) => q.eq("workspaceId", args.workspaceId))
+        .collect();
+
+    return documents
+      .filter((doc) =>
+        doc.workspaceId === args.workspaceId &&
+        // Superseded versions are only searched when selected explicitly
+        (documentIds !== undefined || !doc.supersededBy) &&
+        (!tags?.length || tags.some((tag) => doc.tags?.includes(tag))) &&
+        (!fileType || doc.fileType === fileType) &&
+        (uploadedAfter === undefined || doc._creationTime >= uploadedAfter) &&
+        (uploadedBefore === undefined || doc._creationTime <= uploadedBefore)
+      )
+      .map((doc) => doc._id);
+  },
+});
+
+async function semanticSearch(
+  ctx: ActionCtx,
+  workspaceId: Id<"workspaces">,
+  query: string,
+  documentIds?: Id<"documents">[],
+): Promise<RankedChunk<Id<"documents">>[]> {
+  const [queryEmbedding] = await getLlmProvider().embed([query]);
+
+  const filterByDocument = documentIds && documentIds.length <= MAX_VECTOR_FILTER_DOCUMENTS;
+  const results = await ctx.vectorSearch("chunkEmbeddings", "by_embedding", {
+    vector: queryEmbedding,
+    // Unscoped searches leave room for results from superseded versions
+    limit: filterByDocument ? CANDIDATES_PER_SIGNAL : documentIds ? MAX_VECTOR_RESULTS : CANDIDATES_PER_SIGNAL * 2,
+    filter: (q) => filterByDocument
+      ? q.or(...documentIds.map((documentId) => q.eq("documentId", documentId)))
+      : q.eq("workspaceId", workspaceId),
+  });
+  const relevant = results.filter((result) => result._score > MIN_SEMANTIC_SCORE);
+  const scores = new Map(relevant.map((result) => [result._id, result._score]));
+
+  const chunks = await ctx.runQuery(internal.embeddings.getEmbeddedChunks, {
+    ids: relevant.map((result) => result._id),
+    documentIds: filterByDocument ? undefined : documentIds,
+    latestOnly: !documentIds,
+    limit: CANDIDATES_PER_SIGNAL,
+  });
+
+  return chunks.map((chunk) => ({
+    key: chunk._id,
+    documentId: chunk.documentId,
+    documentTitle: chunk.documentTitle,
+    content: chunk.content,
+    startIndex: chunk.startIndex,
+    endIndex: chunk.endIndex,
+    pageNumber: chunk.pageNumber,
+    sectionPath: chunk.sectionPath,
+    score: scores.get(chunk.embeddingId)!,
+  }));
+}
+
+// Reciprocal rank fusion. Confidence is the fused score relative to a chunk
+// ranked first by both signals, and the raw signal scores are kept so callers
+// can see which one contributed.
+function fuseRankings<DocumentId extends string>(
+  semantic: RankedChunk<DocumentId>[],
+  keyword: RankedChunk<DocumentId>[],
+) {
+  const fused = new Map<string, {
+    chunk: RankedChunk<DocumentId>;
+    semantic?: number;
+    keyword?: number;
+    fused: number;
+  }>();
+
+  for (const [signal, ranking] of [["semantic", semantic], ["keyword", keyword]] as const) {
+    ranking.forEach((chunk, rank) => {
+      const entry = fused.get(chunk.key) ?? { chunk, fused: 0 };
+      entry[signal] = chunk.score;
+      entry.fused += 1 / (RRF_K + rank + 1);
+      fused.set(chunk.key, entry);
+    });
+  }
+
+  const maxFusedScore = 2 / (RRF_K + 1);
+
+  return [...fused.values()]
+    .sort((a, b) => b.fused - a.fused)
+    .slice(0, MAX_SOURCES)
+    .map((entry) => ({
+      documentId: entry.chunk.documentId,
+      documentTitle: entry.chunk.documentTitle,
+      relevantChunk: entry.chunk.content,
+      confidence: entry.fused / maxFusedScore,
+      startIndex: entry.chunk.startIndex,
+      endIndex: entry.chunk.endIndex,
+      pageNumber: entry.chunk.pageNumber,
+      sectionPath: entry.chunk.sectionPath,
+      scores: {
+        semantic: entry.semantic,
+        keyword: entry.keyword,
+        fused: entry.fused,
+      },
+    }));
+}
+
+function rankByBm25<DocumentId extends string>(
+  query: string,
+  chunks: ChunkCandidate<DocumentId>[],
+): RankedChunk<DocumentId>[] {
+  const k1 = 1.2;
+  const b = 0.75;
+  const queryTerms = [...new Set(tokenize(query))];
+  const chunkTerms = chunks.map((chunk) => tokenize(chunk.content));
+  const averageLength = chunkTerms.reduce((sum, terms) => sum + terms.length, 0) / (chunks.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of chunkTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return chunks
+    .map((chunk, index) => {
+      const terms = chunkTerms[index];
+      const termFrequency = new Map<string, number>();
+      for (const term of terms) {
+        termFrequency.set(term, (termFrequency.get(term) ?? 0) + 1);
+      }
+
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = termFrequency.get(term);
+        if (!tf) continue;
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * terms.length / averageLength));
+      }
+      return { ...chunk, score };
+    })
+    .filter((chunk) => chunk.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function toCandidates<DocumentId extends string>(
+  doc: SearchableDocument<DocumentId>,
+): ChunkCandidate<DocumentId>[] {
+  return (doc.chunks ?? []).map((chunk) => ({
+    key: chunk.id,
+    documentId: doc._id,
+    documentTitle: doc.title,
+    content: chunk.content,
+    startIndex: chunk.startIndex,
+    endIndex: chunk.endIndex,
+    pageNumber: chunk.pageNumber,
+    sectionPath: chunk.sectionPath,
+  }));
+}
+
+function tokenize(text: string) {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
@@ -1,5 +1,430 @@
-import { httpRouter } from "convex/server";
+import { FunctionReturnType, httpRouter, PaginationOptions } from "convex/server";
+import { httpAction, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { ApiKeyScope, hasScope } from "./apiKeys";
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_QUESTIONS, mapWithConcurrency } from "./batch";
+import { chunkDocument } from "./chunking";
+import { extractDocument } from "./extraction";
+import { sha256Hex } from "./hashing";
+import { DocumentSummary } from "./documents";
+import { detectContentType, fetchDocument, ingestDocument, storeDocument } from "./ingest";
+import { createUsageCounter } from "./llm";
+import { openApiSpec } from "./openapi";
+import { answerQuery, generateResponse } from "./queries";
+import { RateLimitName, rateLimitMessage } from "./rateLimits";
+import { findRelevantSources, indexDocuments } from "./retrieval";
 
 const http = httpRouter();
 
+http.route({
+  path: "/hackrx/run",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const auth = await authenticate(ctx, request, "read");
+    if (auth.error) {
+      return jsonResponse({ detail: auth.error.message }, auth.error.status);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (
+      !body ||
+      typeof body.documents !== "string" ||
+      !Array.isArray(body.questions) ||
+      !body.questions.every((question: unknown) => typeof question === "string")
+    ) {
+      return jsonResponse({ detail: "Expected a `documents` URL and a list of `questions`" }, 422);
+    }
+    if (body.questions.length === 0 || body.questions.length > MAX_BATCH_QUESTIONS) {
+      return jsonResponse({ detail: `Provide between 1 and ${MAX_BATCH_QUESTIONS} questions` }, 422);
+    }
+
+    const limited = await checkLimits(ctx, auth.key, "query");
+    if (limited) {
+      return jsonResponse({ detail: limited.message }, limited.status, limited.headers);
+    }
+
+    let fetched;
+    try {
+      fetched = await fetchDocument(body.documents);
+    } catch (error: any) {
+      return jsonResponse({ detail: error.message || "Failed to fetch document" }, 400);
+    }
+
+    let extracted;
+    try {
+      extracted = await extractDocument(new Blob([fetched.bytes]), fetched.contentType, fetched.fileName);
+    } catch (error: any) {
+      return jsonResponse({ detail: `Failed to extract document text: ${error.message}` }, 422);
+    }
+
+    // Chunked like a stored document, with the workspace's default settings.
+    // Chunks are embedded once and shared by every question.
+    const chunking = await ctx.runQuery(internal.settings.getDefaultChunking, { workspaceId: auth.key.workspaceId });
+    let index;
+    try {
+      index = await indexDocuments([{
+        _id: body.documents as string,
+        title: body.documents as string,
+        chunks: chunkDocument("hackrx", extracted.content, { ...extracted, chunking: chunking ?? undefined }),
+      }]);
+    } catch (error: any) {
+      return jsonResponse({ detail: `Failed to index document: ${error.message}` }, 502);
+    }
+
+    const { workspaceId, userId } = auth.key;
+    const settings = await ctx.runQuery(internal.settings.getModelSettings, { workspaceId });
+
+    // Answer every question against the fetched document, keeping the order
+    // they were asked in. A question that fails gets an error message as its
+    // answer, and the rest are still answered. The request as a whole was
+    // charged one rate-limit token by `checkLimits`.
+    const answers = await mapWithConcurrency(
+      body.questions as string[],
+      DEFAULT_BATCH_CONCURRENCY,
+      async (question) => {
+        const usage = createUsageCounter();
+        try {
+          const sources = await findRelevantSources(question, index);
+          const response = await generateResponse(question, sources, { settings, onUsage: usage.add });
+          return response.answer;
+        } catch (error: any) {
+          return `Failed to answer this question: ${error.message || "unknown error"}`;
+        } finally {
+          // Tokens spent before a failure still count
+          await ctx.runMutation(internal.usage.recordUsage, { workspaceId, userId, ...usage.total, queries: 1 });
+        }
+      },
+    );
+    return jsonResponse({ answers }, 200);
+  }),
+});
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+http.route({
+  path: "/v1/openapi.json",
+  method: "GET",
+  handler: httpAction(async () => jsonResponse(openApiSpec, 200)),
+});
+
+// Adds a document to the key's workspace, from a multipart `file` upload or
+// a JSON body with a `url`. Content the workspace already has returns the
+// existing document with a 200 instead of a 201.
+http.route({
+  path: "/v1/documents",
+  method: "POST",
+  handler: v1Route("ingest", async (ctx, request, key) => {
+    const limited = await checkLimits(ctx, key, "upload");
+    if (limited) {
+      return apiError(limited.status, limited.code, limited.message, limited.headers);
+    }
+
+    let result;
+    try {
+      if (request.headers.get("Content-Type")?.startsWith("multipart/form-data")) {
+        const form = await request.formData().catch(() => null);
+        const file = form?.get("file");
+        if (!file || typeof file === "string") {
+          return apiError(422, "invalid_request", "Expected a multipart `file` field");
+        }
+
+        const title = form?.get("title");
+        const fileName = typeof title === "string" && title.trim() ? title.trim() : file.name;
+        const bytes = await file.arrayBuffer();
+        result = await storeDocument(ctx, key.userId, key.workspaceId, {
+          bytes,
+          contentType: detectContentType(file.type, bytes, fileName),
+          fileName,
+        });
+      } else {
+        const body = await request.json().catch(() => null);
+        if (!body || typeof body.url !== "string") {
+          return apiError(422, "invalid_request", "Expected a multipart `file` upload or a JSON body with a `url`");
+        }
+        result = await ingestDocument(ctx, key.userId, key.workspaceId, body.url);
+      }
+    } catch (error: any) {
+      return apiError(400, "document_rejected", error.message || "Failed to add document");
+    }
+
+    const document = await ctx.runQuery(internal.documents.getDocumentSummary, {
+      workspaceId: key.workspaceId,
+      documentId: result.documentId,
+    });
+    return jsonResponse({ data: document && formatDocument(document), duplicate: result.duplicate }, result.duplicate ? 200 : 201);
+  }),
+});
+
+http.route({
+  path: "/v1/documents",
+  method: "GET",
+  handler: v1Route("read", async (ctx, request, key) => {
+    const { paginationOpts, error } = parsePagination(request);
+    if (error) {
+      return error;
+    }
+
+    const { result, error: cursorError } = await fetchPage(paginationOpts, () =>
+      ctx.runQuery(internal.documents.listDocumentsPage, { workspaceId: key.workspaceId, paginationOpts }));
+    if (cursorError) {
+      return cursorError;
+    }
+    return jsonResponse({
+      data: result.page.map(formatDocument),
+      nextCursor: result.isDone ? null : result.continueCursor,
+    }, 200);
+  }),
+});
+
+// A document's details, including its processing status and progress
+http.route({
+  pathPrefix: "/v1/documents/",
+  method: "GET",
+  handler: v1Route("read", async (ctx, request, key) => {
+    const document = await ctx.runQuery(internal.documents.getDocumentSummary, {
+      workspaceId: key.workspaceId,
+      documentId: pathId(request, "/v1/documents/"),
+    });
+    if (!document) {
+      return apiError(404, "not_found", "Document not found");
+    }
+    return jsonResponse({ data: formatDocument(document) }, 200);
+  }),
+});
+
+http.route({
+  pathPrefix: "/v1/documents/",
+  method: "DELETE",
+  handler: v1Route("ingest", async (ctx, request, key) => {
+    const deleted = await ctx.runMutation(internal.documents.deleteWorkspaceDocument, {
+      workspaceId: key.workspaceId,
+      documentId: pathId(request, "/v1/documents/"),
+    });
+    if (!deleted) {
+      return apiError(404, "not_found", "Document not found");
+    }
+    return new Response(null, { status: 204 });
+  }),
+});
+
+// Asks a question about the workspace's documents and waits for the answer
+http.route({
+  path: "/v1/queries",
+  method: "POST",
+  handler: v1Route("read", async (ctx, request, key) => {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.query !== "string" || !body.query.trim()) {
+      return apiError(422, "invalid_request", "Expected a non-empty `query`");
+    }
+
+    const hasDocuments = await ctx.runQuery(internal.documents.hasDocuments, { workspaceId: key.workspaceId });
+    if (!hasDocuments) {
+      return apiError(422, "no_documents", "No documents available. Please upload some documents first.");
+    }
+
+    const limited = await checkLimits(ctx, key, "query");
+    if (limited) {
+      return apiError(limited.status, limited.code, limited.message, limited.headers);
+    }
+
+    let queryId: Id<"queries">;
+    try {
+      queryId = await ctx.runMutation(internal.queries.createQuery, {
+        userId: key.userId,
+        workspaceId: key.workspaceId,
+        query: body.query,
+        scope: body.scope,
+      });
+    } catch {
+      return apiError(422, "invalid_request", "Invalid `scope`");
+    }
+
+    try {
+      await answerQuery(ctx, queryId, { bypassCache: body.bypassCache === true });
+    } catch (error: any) {
+      return apiError(500, "query_failed", error.message || "Failed to process query");
+    }
+
+    const record = await ctx.runQuery(internal.queries.getUserQuery, {
+      userId: key.userId,
+      workspaceId: key.workspaceId,
+      queryId,
+    });
+    return jsonResponse({ data: record && formatQuery(record) }, 201);
+  }),
+});
+
+// The key owner's questions in the workspace, newest first
+http.route({
+  path: "/v1/queries",
+  method: "GET",
+  handler: v1Route("read", async (ctx, request, key) => {
+    const { paginationOpts, error } = parsePagination(request);
+    if (error) {
+      return error;
+    }
+
+    const { result, error: cursorError } = await fetchPage(paginationOpts, () =>
+      ctx.runQuery(internal.queries.listQueryHistoryPage, { userId: key.userId, workspaceId: key.workspaceId, paginationOpts }));
+    if (cursorError) {
+      return cursorError;
+    }
+    return jsonResponse({
+      data: result.page.map(formatQuery),
+      nextCursor: result.isDone ? null : result.continueCursor,
+    }, 200);
+  }),
+});
+
+http.route({
+  pathPrefix: "/v1/queries/",
+  method: "GET",
+  handler: v1Route("read", async (ctx, request, key) => {
+    const record = await ctx.runQuery(internal.queries.getUserQuery, {
+      userId: key.userId,
+      workspaceId: key.workspaceId,
+      queryId: pathId(request, "/v1/queries/"),
+    });
+    if (!record) {
+      return apiError(404, "not_found", "Query not found");
+    }
+    return jsonResponse({ data: formatQuery(record) }, 200);
+  }),
+});
+
+type ApiKeyIdentity = NonNullable<FunctionReturnType<typeof internal.apiKeys.authenticateApiKey>>;
+
+// Authenticates a /v1 request and turns unexpected failures into the API's
+// error format
+function v1Route(
+  requiredScope: ApiKeyScope,
+  handler: (ctx: ActionCtx, request: Request, key: ApiKeyIdentity) => Promise<Response>,
+) {
+  return httpAction(async (ctx, request) => {
+    const auth = await authenticate(ctx, request, requiredScope);
+    if (auth.error) {
+      return apiError(auth.error.status, auth.error.code, auth.error.message);
+    }
+
+    try {
+      return await handler(ctx, request, auth.key);
+    } catch (error: any) {
+      return apiError(500, "internal_error", error.message || "Internal error");
+    }
+  });
+}
+
+// Checks the request's Bearer API key against the stored key hashes. Returns
+// the key's user and workspace, or the error to send.
+async function authenticate(ctx: ActionCtx, request: Request, requiredScope: ApiKeyScope) {
+  const authHeader = request.headers.get("Authorization");
+  const apiKey = authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : null;
+  const key = apiKey
+    ? await ctx.runQuery(internal.apiKeys.authenticateApiKey, { keyHash: await sha256Hex(apiKey) })
+    : null;
+
+  if (!key) {
+    return { error: { status: 401, code: "unauthorized", message: "Unauthorized" } };
+  }
+  if (!hasScope(key.scope, requiredScope)) {
+    return {
+      error: { status: 403, code: "forbidden", message: `This API key doesn't have the ${requiredScope} scope` },
+    };
+  }
+
+  await ctx.runMutation(internal.apiKeys.recordApiKeyUse, { keyId: key.keyId });
+  return { key };
+}
+
+// Applies the key owner's rate limit and, for questions, their daily token
+// quotas. Returns the 429 error to send, if any.
+async function checkLimits(
+  ctx: ActionCtx,
+  key: ApiKeyIdentity,
+  name: RateLimitName,
+): Promise<{ status: number; code: string; message: string; headers: Record<string, string> } | null> {
+  if (name === "query") {
+    const quotaError = await ctx.runQuery(internal.usage.checkQuota, { workspaceId: key.workspaceId, userId: key.userId });
+    if (quotaError) {
+      return { status: 429, code: "quota_exceeded", message: quotaError, headers: {} };
+    }
+  }
+
+  const retryAfterMs = await ctx.runMutation(internal.rateLimits.takeRateLimitToken, { userId: key.userId, name });
+  if (retryAfterMs !== null) {
+    return {
+      status: 429,
+      code: "rate_limited",
+      message: rateLimitMessage(retryAfterMs),
+      headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) },
+    };
+  }
+  return null;
+}
+
+// Reads `?limit=` and `?cursor=` for the /v1 list endpoints
+function parsePagination(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const limit = params.has("limit") ? Number(params.get("limit")) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: apiError(422, "invalid_request", `\`limit\` must be a whole number from 1 to ${MAX_PAGE_SIZE}`) };
+  }
+  return { paginationOpts: { numItems: limit, cursor: params.get("cursor") } };
+}
+
+// Runs the query behind a /v1 list endpoint. Cursors are opaque, so one the
+// client made up or mangled is only caught when the query rejects it.
+async function fetchPage<T>(paginationOpts: PaginationOptions, fetch: () => Promise<T>) {
+  try {
+    return { result: await fetch() };
+  } catch (error: any) {
+    if (paginationOpts.cursor !== null && /cursor/i.test(error?.message ?? "")) {
+      return { error: apiError(422, "invalid_request", "`cursor` must be a `nextCursor` from an earlier page") };
+    }
+    throw error;
+  }
+}
+
+// The id in a path like /v1/documents/{id}
+function pathId(request: Request, prefix: string) {
+  return decodeURIComponent(new URL(request.url).pathname.slice(prefix.length));
+}
+
+function formatDocument(document: DocumentSummary) {
+  const { _id, _creationTime, ...fields } = document;
+  return { id: _id, createdAt: _creationTime, ...fields };
+}
+
+function formatQuery(record: Doc<"queries">) {
+  return {
+    id: record._id,
+    createdAt: record._creationTime,
+    query: record.query,
+    status: record.status ?? "complete",
+    answer: record.response,
+    sources: record.sources,
+    abstained: record.abstained ?? false,
+    groundedness: record.groundedness,
+    scope: record.scope,
+    conversationId: record.conversationId,
+    processingTime: record.processingTime,
+    usage: record.usage,
+    error: record.error,
+    cached: record.cached,
+  };
+}
+
+function apiError(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+  return jsonResponse({ error: { code, message } }, status, headers);
+}
+
+function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
 export default http;
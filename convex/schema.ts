@@ -1,44 +1,543 @@
 import { defineSchema, defineTable } from "convex/server";
-import { v } from "convex/values";
+import { v, Infer } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+export const chunkingValidator = v.object({
+  strategy: v.union(
+    v.literal("fixed"),
+    v.literal("sentence"),
+    v.literal("section"),
+    v.literal("tokens"),
+  ),
+  chunkSize: v.number(),
+  overlap: v.number(),
+});
+
+export const modelSettingsValidator = v.object({
+  model: v.string(),
+  temperature: v.number(),
+  maxTokens: v.number(),
+});
+
+export const workspaceRoleValidator = v.union(
+  v.literal("owner"),
+  // Can add, change and delete documents and change workspace settings
+  v.literal("editor"),
+  // Can read documents and ask questions about them
+  v.literal("viewer"),
+);
+
+export const apiKeyScopeValidator = v.union(
+  // Ask questions about documents
+  v.literal("read"),
+  // Also add documents
+  v.literal("ingest"),
+);
+
+export const chunkValidator = v.object({
+  id: v.string(),
+  content: v.string(),
+  startIndex: v.number(),
+  endIndex: v.number(),
+  pageNumber: v.optional(v.number()),
+  sectionPath: v.optional(v.array(v.string())),
+});
+
+export const pageValidator = v.object({
+  pageNumber: v.number(),
+  startIndex: v.number(),
+  endIndex: v.number(),
+});
+
+export const headingValidator = v.object({
+  level: v.number(),
+  text: v.string(),
+  startIndex: v.number(),
+});
+
+export const documentStatusValidator = v.union(
+  v.literal("queued"),
+  v.literal("extracting"),
+  v.literal("chunking"),
+  v.literal("embedding"),
+  v.literal("ready"),
+  v.literal("failed"),
+);
+
+export const queryStatusValidator = v.union(
+  v.literal("retrieving"),
+  v.literal("generating"),
+  // Checking the generated answer against its sources
+  v.literal("grading"),
+  v.literal("complete"),
+  v.literal("failed"),
+);
+
+// Restricts retrieval to a subset of the workspace's documents. Every filter that
+// is set must match; unset filters match all documents.
+export const queryScopeValidator = v.object({
+  documentIds: v.optional(v.array(v.id("documents"))),
+  // Documents with any of these tags
+  tags: v.optional(v.array(v.string())),
+  fileType: v.optional(v.string()),
+  // Upload time range, in milliseconds since the epoch
+  uploadedAfter: v.optional(v.number()),
+  uploadedBefore: v.optional(v.number()),
+});
+
+export const answerSentenceValidator = v.object({
+  text: v.string(),
+  // 1-based indices into the query's sources
+  sourceIndices: v.array(v.number()),
+});
+
+export const groundednessValidator = v.object({
+  // Fraction of answer sentences supported by the sources
+  score: v.number(),
+  level: v.union(v.literal("high"), v.literal("medium"), v.literal("low")),
+  // 1-based indices into the query's answer sentences
+  unsupportedSentences: v.array(v.number()),
+});
+
+export const tokenUsageValidator = v.object({
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+});
+
+// Daily token limits, in prompt plus completion tokens. Unset limits use the defaults in usage.ts.
+export const quotasValidator = v.object({
+  workspaceDailyTokens: v.optional(v.number()),
+  // Applies to each member separately
+  memberDailyTokens: v.optional(v.number()),
+});
+
+export const answerCacheSettingsValidator = v.object({
+  enabled: v.boolean(),
+  // Also reuse answers to differently worded questions with the same meaning
+  matchSimilarQuestions: v.boolean(),
+});
+
+// Where in a document the answer to a golden question is found
+export const expectedSourceValidator = v.object({
+  documentId: v.id("documents"),
+  startIndex: v.number(),
+  endIndex: v.number(),
+});
+
+export const evaluationResultValidator = v.object({
+  questionId: v.id("goldenQuestions"),
+  question: v.string(),
+  answer: v.string(),
+  abstained: v.boolean(),
+  // 1-based rank of the first retrieved source overlapping the expected
+  // span; null when it wasn't retrieved, unset without an expected source
+  sourceRank: v.optional(v.union(v.number(), v.null())),
+  // Token F1 between the answer and the expected answer, from 0 to 1
+  answerScore: v.optional(v.number()),
+  retrievalMs: v.number(),
+  generationMs: v.number(),
+  error: v.optional(v.string()),
+  // The query the question was answered through
+  queryId: v.id("queries"),
+});
+
+export const evaluationMetricsValidator = v.object({
+  // Unset when no question in the run has an expected source or answer
+  recallAtK: v.optional(v.number()),
+  mrr: v.optional(v.number()),
+  answerMatch: v.optional(v.number()),
+  abstentionRate: v.number(),
+  meanLatencyMs: v.number(),
+  p95LatencyMs: v.number(),
+  meanRetrievalMs: v.number(),
+  meanGenerationMs: v.number(),
+  errors: v.number(),
+});
+
+export const feedbackRatingValidator = v.union(v.literal("up"), v.literal("down"));
+
+export const feedbackReasonValidator = v.union(
+  v.literal("incorrect"),
+  v.literal("incomplete"),
+  // Not backed by the cited sources
+  v.literal("unsupported"),
+  // For sources that don't relate to the question
+  v.literal("irrelevant"),
+  v.literal("outdated"),
+  v.literal("other"),
+);
+
+export const sourceValidator = v.object({
+  documentId: v.id("documents"),
+  documentTitle: v.string(),
+  relevantChunk: v.string(),
+  confidence: v.number(),
+  startIndex: v.number(),
+  endIndex: v.number(),
+  pageNumber: v.optional(v.number()),
+  sectionPath: v.optional(v.array(v.string())),
+  // Which retrieval signals ranked this chunk: cosine similarity, BM25 and
+  // the reciprocal rank fusion of both
+  scores: v.optional(v.object({
+    semantic: v.optional(v.number()),
+    keyword: v.optional(v.number()),
+    fused: v.number(),
+  })),
+});
+
+export type Source = Infer<typeof sourceValidator>;
+
 const applicationTables = {
   documents: defineTable({
     title: v.string(),
     content: v.string(),
     fileType: v.string(),
     uploadedBy: v.id("users"),
+    // Unset on documents uploaded before workspaces, until they are moved
+    // into the uploader's personal workspace
+    workspaceId: v.optional(v.id("workspaces")),
     fileSize: v.number(),
     storageId: v.optional(v.id("_storage")),
     processedAt: v.optional(v.number()),
-    chunks: v.optional(v.array(v.object({
-      id: v.string(),
-      content: v.string(),
-      startIndex: v.number(),
-      endIndex: v.number(),
-    }))),
-  })
-    .index("by_user", ["uploadedBy"])
+    // Chunks live in the `chunks` table; this inline copy is only kept on
+    // documents processed before it existed, until
+    // `documents:reprocessLegacyDocuments` processes them again
+    chunks: v.optional(v.array(chunkValidator)),
+    chunkCount: v.optional(v.number()),
+    pages: v.optional(v.array(pageValidator)),
+    outline: v.optional(v.array(headingValidator)),
+    // Defaults to fixed-size character windows when unset
+    chunking: v.optional(chunkingValidator),
+    // Documents uploaded before status tracking have no status; treat them as
+    // ready when `processedAt` is set
+    status: v.optional(documentStatusValidator),
+    // Fraction of the current stage completed, while embedding
+    progress: v.optional(v.number()),
+    processingError: v.optional(v.string()),
+    attempts: v.optional(v.number()),
+    processingJobId: v.optional(v.id("_scheduled_functions")),
+    // Counts how often processing was restarted, so writes from a run that
+    // was still going when it was restarted can be told apart and dropped
+    processingRun: v.optional(v.number()),
+    tags: v.optional(v.array(v.string())),
+    // Set for documents added from a URL
+    sourceUrl: v.optional(v.string()),
+    // Hex SHA-256 of the original file, used to detect duplicate uploads
+    contentHash: v.optional(v.string()),
+    // Versions of a document share the id of the first version in `versionOf`
+    // (unset on the first version itself). Numbered from 1.
+    version: v.optional(v.number()),
+    versionOf: v.optional(v.id("documents")),
+    previousVersionId: v.optional(v.id("documents")),
+    // Set once a newer version is ready; superseded versions are only
+    // searched when selected explicitly
+    supersededBy: v.optional(v.id("documents")),
+  })
+    .index("by_user_and_workspace", ["uploadedBy", "workspaceId"])
+    .index("by_workspace", ["workspaceId"])
+    .index("by_workspace_and_hash", ["workspaceId", "contentHash"])
     .searchIndex("search_content", {
       searchField: "content",
-      filterFields: ["uploadedBy", "fileType"],
+      filterFields: ["workspaceId", "fileType"],
+    }),
+
+  chunks: defineTable({
+    documentId: v.id("documents"),
+    userId: v.id("users"),
+    // Position of the chunk within its document
+    chunkIndex: v.number(),
+    content: v.string(),
+    startIndex: v.number(),
+    endIndex: v.number(),
+    pageNumber: v.optional(v.number()),
+    // Headings the chunk falls under, outermost first
+    sectionPath: v.optional(v.array(v.string())),
+  })
+    .index("by_document", ["documentId", "chunkIndex"])
+    .index("by_user", ["userId"]),
+
+  chunkEmbeddings: defineTable({
+    chunkId: v.id("chunks"),
+    documentId: v.id("documents"),
+    userId: v.id("users"),
+    workspaceId: v.optional(v.id("workspaces")),
+    embedding: v.array(v.float64()),
+  })
+    .index("by_chunk", ["chunkId"])
+    .index("by_document", ["documentId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["workspaceId", "documentId"],
     }),
 
   queries: defineTable({
     userId: v.id("users"),
+    // The workspace whose documents were searched; unset on queries asked
+    // before workspaces, until they are migrated
+    workspaceId: v.optional(v.id("workspaces")),
     query: v.string(),
     response: v.string(),
-    sources: v.array(v.object({
-      documentId: v.id("documents"),
-      documentTitle: v.string(),
-      relevantChunk: v.string(),
-      confidence: v.number(),
-      startIndex: v.number(),
-      endIndex: v.number(),
+    sources: v.array(sourceValidator),
+    processingTime: v.number(),
+    // Queries saved before answers were streamed have no status and are complete
+    status: v.optional(queryStatusValidator),
+    error: v.optional(v.string()),
+    // Set for turns of a multi-turn conversation
+    conversationId: v.optional(v.id("conversations")),
+    // The documents searched; all of the workspace's documents when unset
+    scope: v.optional(queryScopeValidator),
+    // Follow-up questions rewritten into a standalone question for retrieval
+    retrievalQuery: v.optional(v.string()),
+    // The answer split into sentences with the sources each one cites
+    answerSentences: v.optional(v.array(answerSentenceValidator)),
+    // Set when the documents didn't contain enough evidence to answer
+    abstained: v.optional(v.boolean()),
+    groundedness: v.optional(groundednessValidator),
+    // Tokens used by every model call made for this query
+    usage: v.optional(tokenUsageValidator),
+    // How `processingTime` splits between finding sources (including
+    // rewriting follow-up questions) and writing and checking the answer.
+    // Unset on queries answered before these were recorded.
+    retrievalTime: v.optional(v.number()),
+    generationTime: v.optional(v.number()),
+    // Set when the answer was reused from an earlier query instead of generated
+    cached: v.optional(v.object({
+      // When the reused answer was first generated
+      answeredAt: v.number(),
+      // Reused from a differently worded question
+      similarQuestion: v.boolean(),
     })),
+    // The question, followed by the answer once complete, for searching
+    // history. Unset on queries asked before history search, until backfilled.
+    searchText: v.optional(v.string()),
+    // Set on questions asked by an evaluation run, which are kept out of
+    // history and analytics
+    evaluationRunId: v.optional(v.id("evaluationRuns")),
+  })
+    .index("by_user_and_workspace", ["userId", "workspaceId"])
+    .index("by_conversation", ["conversationId"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "workspaceId"],
+    }),
+
+  conversations: defineTable({
+    userId: v.id("users"),
+    workspaceId: v.optional(v.id("workspaces")),
+    title: v.string(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_workspace_and_updated", ["userId", "workspaceId", "updatedAt"]),
+
+  // Requests made with a key act as its user, within its workspace
+  apiKeys: defineTable({
+    userId: v.id("users"),
+    // Keys created before workspaces act in the user's personal workspace
+    workspaceId: v.optional(v.id("workspaces")),
+    name: v.string(),
+    // Keys created before scopes can only read
+    scope: v.optional(apiKeyScopeValidator),
+    keyHash: v.string(),
+    keyPrefix: v.string(),
+    lastUsedAt: v.optional(v.number()),
+    // When the key was last replaced with a new secret
+    rotatedAt: v.optional(v.number()),
+  })
+    .index("by_user_and_workspace", ["userId", "workspaceId"])
+    .index("by_hash", ["keyHash"]),
+
+  // Shared by everyone in a workspace
+  settings: defineTable({
+    workspaceId: v.optional(v.id("workspaces")),
+    // Only set on settings saved before workspaces, until they are moved
+    // into the user's personal workspace
+    userId: v.optional(v.id("users")),
+    modelSettings: v.optional(modelSettingsValidator),
+    // Used for uploads that don't choose their own chunking settings
+    chunking: v.optional(chunkingValidator),
+    // Only owners can change these
+    quotas: v.optional(quotasValidator),
+    // Enabled without matching similar questions when unset
+    answerCache: v.optional(answerCacheSettingsValidator),
+  })
+    .index("by_workspace", ["workspaceId"])
+    .index("by_user", ["userId"]),
+
+  // Answers that can be reused when a question is asked again. The keys cover
+  // the documents searched, their processed versions and the model settings,
+  // so changing any of those misses the cache.
+  cachedAnswers: defineTable({
+    workspaceId: v.id("workspaces"),
+    // Hash of everything the answer depends on besides the question
+    contextKey: v.string(),
+    // Hash of `contextKey` and the normalized question
+    questionKey: v.string(),
+    // The query whose answer is reused
+    queryId: v.id("queries"),
+    // Of the question, for matching similar questions. Only stored while the
+    // workspace matches similar questions.
+    embedding: v.optional(v.array(v.float64())),
+  })
+    .index("by_question_key", ["questionKey"])
+    .index("by_workspace", ["workspaceId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["contextKey"],
+    }),
+
+  // The documents each cached answer cites, so it can be dropped when one of
+  // them is reprocessed, replaced or deleted
+  cachedAnswerDocuments: defineTable({
+    cachedAnswerId: v.id("cachedAnswers"),
+    documentId: v.id("documents"),
+  })
+    .index("by_cached_answer", ["cachedAnswerId"])
+    .index("by_document", ["documentId"]),
+
+  // Tokens each member used in a workspace on one UTC day
+  usage: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    // YYYY-MM-DD, in UTC
+    day: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    queries: v.number(),
+  })
+    .index("by_workspace_and_day", ["workspaceId", "day"])
+    .index("by_user_and_day", ["userId", "day"]),
+
+  // Ratings from the person who asked a question, on the answer as a whole
+  // or on one of its sources
+  feedback: defineTable({
+    workspaceId: v.id("workspaces"),
+    queryId: v.id("queries"),
+    userId: v.id("users"),
+    // 1-based index into the query's sources; unset for feedback on the answer
+    sourceIndex: v.optional(v.number()),
+    // The rated source's document
+    documentId: v.optional(v.id("documents")),
+    rating: feedbackRatingValidator,
+    reason: v.optional(feedbackReasonValidator),
+    comment: v.optional(v.string()),
+    // What the answer should have said; only on feedback for the answer
+    correction: v.optional(v.string()),
+    updatedAt: v.number(),
+    // Set once the question has been added to a golden set
+    promotedTo: v.optional(v.id("goldenQuestions")),
+  })
+    .index("by_query_and_source", ["queryId", "sourceIndex"])
+    .index("by_workspace_and_updated", ["workspaceId", "updatedAt"]),
+
+  // A compact copy of each finished query, for analytics over many queries
+  // without reading their sources and answers
+  queryMetrics: defineTable({
+    workspaceId: v.id("workspaces"),
+    queryId: v.id("queries"),
+    // When the question was asked
+    askedAt: v.number(),
+    // Truncated
+    question: v.string(),
+    failed: v.boolean(),
+    abstained: v.boolean(),
+    // The answer's groundedness was low
+    lowConfidence: v.boolean(),
     processingTime: v.number(),
+    retrievalTime: v.optional(v.number()),
+    generationTime: v.optional(v.number()),
+    retrievedDocumentIds: v.array(v.id("documents")),
+    // Documents the answer's sentences cite
+    citedDocumentIds: v.array(v.id("documents")),
+  })
+    .index("by_workspace_and_asked", ["workspaceId", "askedAt"])
+    .index("by_query", ["queryId"]),
+
+  // Questions with known answers, for measuring retrieval and answer quality
+  goldenSets: defineTable({
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+    createdBy: v.id("users"),
+  })
+    .index("by_workspace", ["workspaceId"]),
+
+  goldenQuestions: defineTable({
+    goldenSetId: v.id("goldenSets"),
+    question: v.string(),
+    expectedAnswer: v.optional(v.string()),
+    expectedSource: v.optional(expectedSourceValidator),
+  })
+    .index("by_golden_set", ["goldenSetId"]),
+
+  // One pass over a golden set, kept so results can be compared over time
+  evaluationRuns: defineTable({
+    workspaceId: v.id("workspaces"),
+    goldenSetId: v.id("goldenSets"),
+    // Unset on runs started from the command line
+    startedBy: v.optional(v.id("users")),
+    status: v.union(v.literal("running"), v.literal("complete"), v.literal("failed")),
+    // Sources considered for recall@k
+    k: v.number(),
+    // What produced the results, so runs with different settings can be told apart
+    config: v.object({
+      modelSettings: modelSettingsValidator,
+      llmProvider: v.string(),
+      embeddingProvider: v.string(),
+    }),
+    questionIds: v.array(v.id("goldenQuestions")),
+    // How many of `questionIds` have been answered; their results are in
+    // `evaluationResults`
+    completedQuestions: v.number(),
+    metrics: v.optional(evaluationMetricsValidator),
+    error: v.optional(v.string()),
+    completedAt: v.optional(v.number()),
   })
+    .index("by_golden_set", ["goldenSetId"]),
+
+  // One row per answered question of an evaluation run, in the order asked
+  evaluationResults: defineTable({
+    runId: v.id("evaluationRuns"),
+    ...evaluationResultValidator.fields,
+  })
+    .index("by_run", ["runId"]),
+
+  // Token buckets for rate limiting, one per user and limit
+  rateLimits: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    tokens: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_and_name", ["userId", "name"]),
+
+  workspaces: defineTable({
+    name: v.string(),
+    createdBy: v.id("users"),
+    // Every user gets one personal workspace, created on their first visit
+    personal: v.optional(v.boolean()),
+  }),
+
+  workspaceMembers: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: workspaceRoleValidator,
+  })
+    .index("by_workspace_and_user", ["workspaceId", "userId"])
     .index("by_user", ["userId"]),
+
+  // Pending invitations; accepting one turns it into a membership
+  workspaceInvitations: defineTable({
+    workspaceId: v.id("workspaces"),
+    // Lowercased, matched against the invited user's account email
+    email: v.string(),
+    role: workspaceRoleValidator,
+    invitedBy: v.id("users"),
+    // SHA-256 of the single-use code the invitee needs to accept
+    codeHash: v.string(),
+  })
+    .index("by_workspace_and_email", ["workspaceId", "email"])
+    .index("by_email", ["email"]),
 };
 
 export default defineSchema({
@@ -0,0 +1,105 @@
+import { v, Infer } from "convex/values";
+import { query, mutation, internalQuery, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { answerCacheSettingsValidator, chunkingValidator, modelSettingsValidator } from "./schema";
+import { validateChunking } from "./chunking";
+import { ModelSettings } from "./llm";
+import { getWorkspaceAccess, requireWorkspaceAccess } from "./workspaces";
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: "gpt-4o-mini",
+  temperature: 0.3,
+  maxTokens: 1000,
+};
+
+export const DEFAULT_ANSWER_CACHE_SETTINGS: Infer<typeof answerCacheSettingsValidator> = {
+  enabled: true,
+  matchSimilarQuestions: false,
+};
+
+export const getSettings = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
+      return null;
+    }
+
+    const settings = await findSettings(ctx, args.workspaceId);
+    return {
+      modelSettings: settings?.modelSettings ?? DEFAULT_MODEL_SETTINGS,
+      chunking: settings?.chunking ?? null,
+      answerCache: settings?.answerCache ?? DEFAULT_ANSWER_CACHE_SETTINGS,
+    };
+  },
+});
+
+export const updateSettings = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    modelSettings: v.optional(modelSettingsValidator),
+    chunking: v.optional(chunkingValidator),
+    answerCache: v.optional(answerCacheSettingsValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireWorkspaceAccess(ctx, args.workspaceId, "editor");
+
+    const { workspaceId, ...fields } = args;
+    if (fields.modelSettings) {
+      validateModelSettings(fields.modelSettings);
+    }
+    if (fields.chunking) {
+      validateChunking(fields.chunking);
+    }
+
+    const settings = await findSettings(ctx, workspaceId);
+    if (settings) {
+      await ctx.db.patch(settings._id, fields);
+    } else {
+      await ctx.db.insert("settings", { workspaceId, ...fields });
+    }
+  },
+});
+
+export const getModelSettings = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const settings = await findSettings(ctx, args.workspaceId);
+    return settings?.modelSettings ?? DEFAULT_MODEL_SETTINGS;
+  },
+});
+
+// The workspace's default chunking settings, for documents chunked in actions
+// without being stored, like batches over a URL. Null when it has none.
+export const getDefaultChunking = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const settings = await findSettings(ctx, args.workspaceId);
+    return settings?.chunking ?? null;
+  },
+});
+
+export async function findSettings(ctx: QueryCtx, workspaceId: Id<"workspaces">) {
+  return await ctx.db
+    .query("settings")
+    .withIndex("by_workspace", (q) => q.eq("workspaceId", workspaceId))
+    .unique();
+}
+
+function validateModelSettings(settings: ModelSettings) {
+  if (!settings.model.trim()) {
+    throw new Error("Model name is required");
+  }
+  if (!(settings.temperature >= 0 && settings.temperature <= 2)) {
+    throw new Error("Temperature must be between 0 and 2");
+  }
+  if (!Number.isInteger(settings.maxTokens) || settings.maxTokens <= 0) {
+    throw new Error("Max tokens must be a positive whole number");
+  }
+}
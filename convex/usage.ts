@@ -0,0 +1,165 @@
+import { v } from "convex/values";
+import { query, mutation, internalQuery, internalMutation, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { quotasValidator } from "./schema";
+import { findSettings } from "./settings";
+import { getWorkspaceAccess, requireWorkspaceAccess } from "./workspaces";
+
+export const DEFAULT_QUOTAS = {
+  workspaceDailyTokens: 1_000_000,
+  memberDailyTokens: 200_000,
+};
+
+// Caps one account across all of its workspaces, since anyone can sign in
+// anonymously and create workspaces with their own quotas. Override with the
+// DAILY_TOKEN_LIMIT_PER_USER environment variable.
+const DEFAULT_ACCOUNT_DAILY_TOKENS = 500_000;
+
+// Today's usage against the workspace's quotas, for the usage meter
+export const getUsage = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
+      return null;
+    }
+
+    const settings = await findSettings(ctx, args.workspaceId);
+    return {
+      ...await getUsageStatus(ctx, args.workspaceId, access.userId),
+      quotas: { ...DEFAULT_QUOTAS, ...settings?.quotas },
+      accountDailyTokens: accountDailyTokens(),
+    };
+  },
+});
+
+export const updateQuotas = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    quotas: quotasValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireWorkspaceAccess(ctx, args.workspaceId, "owner");
+
+    for (const limit of Object.values(args.quotas)) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+        throw new Error("Quotas must be positive whole numbers of tokens");
+      }
+    }
+
+    const settings = await findSettings(ctx, args.workspaceId);
+    if (settings) {
+      await ctx.db.patch(settings._id, { quotas: args.quotas });
+    } else {
+      await ctx.db.insert("settings", { workspaceId: args.workspaceId, quotas: args.quotas });
+    }
+  },
+});
+
+// For actions and HTTP routes. Returns why the user can't make model calls
+// in the workspace today, or null if they can.
+export const checkQuota = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args): Promise<string | null> => {
+    return await quotaError(ctx, args.workspaceId, args.userId);
+  },
+});
+
+export const recordUsage = internalMutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    queries: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { workspaceId, userId, ...counts } = args;
+    const day = currentDay();
+
+    const usage = (await ctx.db
+      .query("usage")
+      .withIndex("by_user_and_day", (q) => q.eq("userId", userId).eq("day", day))
+      .collect())
+      .find((row) => row.workspaceId === workspaceId);
+
+    if (usage) {
+      await ctx.db.patch(usage._id, {
+        promptTokens: usage.promptTokens + counts.promptTokens,
+        completionTokens: usage.completionTokens + counts.completionTokens,
+        queries: usage.queries + counts.queries,
+      });
+    } else {
+      await ctx.db.insert("usage", { workspaceId, userId, day, ...counts });
+    }
+  },
+});
+
+export async function requireQuota(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  const error = await quotaError(ctx, workspaceId, userId);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+async function quotaError(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  const settings = await findSettings(ctx, workspaceId);
+  const quotas = { ...DEFAULT_QUOTAS, ...settings?.quotas };
+  const status = await getUsageStatus(ctx, workspaceId, userId);
+
+  if (status.workspace.tokens >= quotas.workspaceDailyTokens) {
+    return "This workspace has used its daily token quota. It resets at midnight UTC.";
+  }
+  if (status.member.tokens >= quotas.memberDailyTokens) {
+    return "You've used your daily token quota in this workspace. It resets at midnight UTC.";
+  }
+  if (status.account.tokens >= accountDailyTokens()) {
+    return "You've used your daily token limit across all workspaces. It resets at midnight UTC.";
+  }
+  return null;
+}
+
+async function getUsageStatus(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  const day = currentDay();
+
+  const workspaceRows = await ctx.db
+    .query("usage")
+    .withIndex("by_workspace_and_day", (q) => q.eq("workspaceId", workspaceId).eq("day", day))
+    .collect();
+  const accountRows = await ctx.db
+    .query("usage")
+    .withIndex("by_user_and_day", (q) => q.eq("userId", userId).eq("day", day))
+    .collect();
+
+  return {
+    day,
+    resetsAt: Date.parse(day) + 24 * 60 * 60 * 1000,
+    workspace: sumUsage(workspaceRows),
+    member: sumUsage(workspaceRows.filter((row) => row.userId === userId)),
+    account: sumUsage(accountRows),
+  };
+}
+
+function sumUsage(rows: Array<{ promptTokens: number; completionTokens: number; queries: number }>) {
+  return rows.reduce(
+    (total, row) => ({
+      tokens: total.tokens + row.promptTokens + row.completionTokens,
+      queries: total.queries + row.queries,
+    }),
+    { tokens: 0, queries: 0 },
+  );
+}
+
+function accountDailyTokens() {
+  const limit = Number(process.env.DAILY_TOKEN_LIMIT_PER_USER);
+  return limit > 0 ? limit : DEFAULT_ACCOUNT_DAILY_TOKENS;
+}
+
+function currentDay() {
+  return new Date().toISOString().slice(0, 10);
+}
@@ -0,0 +1,560 @@
+import { v, Infer } from "convex/values";
+import { query, mutation, internalQuery, internalMutation, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { randomHex, sha256Hex } from "./hashing";
+import { workspaceRoleValidator } from "./schema";
+
+export type WorkspaceRole = Infer<typeof workspaceRoleValidator>;
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+const MAX_WORKSPACE_NAME_LENGTH = 60;
+// Records moved into a personal workspace per migration batch
+const MIGRATION_BATCH_SIZE = 200;
+
+export const listWorkspaces = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect();
+
+    const workspaces = [];
+    for (const membership of memberships) {
+      const workspace = await ctx.db.get(membership.workspaceId);
+      if (workspace) {
+        workspaces.push({
+          _id: workspace._id,
+          name: workspace.name,
+          // Only the user's own personal workspace counts as personal to them
+          personal: workspace.personal === true && workspace.createdBy === userId,
+          role: membership.role,
+        });
+      }
+    }
+
+    // Personal workspace first, then by name
+    return workspaces.sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name));
+  },
+});
+
+// Returns the user's personal workspace, creating it on their first visit.
+// Documents, questions and settings from before workspaces are moved into it.
+export const ensurePersonalWorkspace = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const existing = await findPersonalWorkspace(ctx, userId);
+    if (existing) {
+      return existing;
+    }
+
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name: "Personal",
+      createdBy: userId,
+      personal: true,
+    });
+    await ctx.db.insert("workspaceMembers", { workspaceId, userId, role: "owner" });
+
+    await ctx.scheduler.runAfter(0, internal.workspaces.migrateUserData, { userId, workspaceId });
+
+    return workspaceId;
+  },
+});
+
+export const createWorkspace = mutation({
+  args: {
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Not authenticated");
+    }
+
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name: validateWorkspaceName(args.name),
+      createdBy: userId,
+    });
+    await ctx.db.insert("workspaceMembers", { workspaceId, userId, role: "owner" });
+
+    return workspaceId;
+  },
+});
+
+export const renameWorkspace = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireWorkspaceAccess(ctx, args.workspaceId, "owner");
+    await ctx.db.patch(args.workspaceId, { name: validateWorkspaceName(args.name) });
+  },
+});
+
+// Members and pending invitations, for anyone in the workspace
+export const listMembers = query({
+  args: {
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const access = await getWorkspaceAccess(ctx, args.workspaceId);
+    if (!access) {
+      return null;
+    }
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+
+    const members = [];
+    for (const membership of memberships) {
+      const user = await ctx.db.get(membership.userId);
+      members.push({
+        userId: membership.userId,
+        name: user?.name,
+        email: user?.email,
+        role: membership.role,
+      });
+    }
+
+    const invitations = await ctx.db
+      .query("workspaceInvitations")
+      .withIndex("by_workspace_and_email", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+
+    return {
+      members,
+      invitations: invitations.map((invitation) => ({
+        _id: invitation._id,
+        email: invitation.email,
+        role: invitation.role,
+      })),
+    };
+  },
+});
+
+// Invites someone by the email address they sign in with. Returns a
+// single-use code they need to accept, since account emails aren't verified;
+// only its hash is stored. Inviting an address that already has a pending
+// invitation changes its role and replaces the code.
+export const inviteMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    email: v.string(),
+    role: workspaceRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    const { userId } = await requireWorkspaceAccess(ctx, args.workspaceId, "owner");
+
+    const email = args.email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new Error("Enter a valid email address");
+    }
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", args.workspaceId))
+      .collect();
+    for (const membership of memberships) {
+      const user = await ctx.db.get(membership.userId);
+      if (user?.email?.toLowerCase() === email) {
+        throw new Error("This person is already a member of the workspace");
+      }
+    }
+
+    const existing = await ctx.db
+      .query("workspaceInvitations")
+      .withIndex("by_workspace_and_email", (q) => q.eq("workspaceId", args.workspaceId).eq("email", email))
+      .unique();
+    const code = randomHex(16);
+    const codeHash = await sha256Hex(code);
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role, invitedBy: userId, codeHash });
+      return { invitationId: existing._id, code };
+    }
+
+    const invitationId = await ctx.db.insert("workspaceInvitations", {
+      workspaceId: args.workspaceId,
+      email,
+      role: args.role,
+      invitedBy: userId,
+      codeHash,
+    });
+    return { invitationId, code };
+  },
+});
+
+export const revokeInvitation = mutation({
+  args: {
+    invitationId: v.id("workspaceInvitations"),
+  },
+  handler: async (ctx, args) => {
+    const invitation = await ctx.db.get(args.invitationId);
+    if (!invitation) {
+      throw new Error("Invitation not found or unauthorized");
+    }
+    await requireWorkspaceAccess(ctx, invitation.workspaceId, "owner");
+
+    await ctx.db.delete(args.invitationId);
+  },
+});
+
+// Invitations waiting for the signed-in user to accept or decline
+export const listMyInvitations = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      return [];
+    }
+
+    const user = await ctx.db.get(userId);
+    if (!user?.email) {
+      return [];
+    }
+
+    const invitations = await ctx.db
+      .query("workspaceInvitations")
+      .withIndex("by_email", (q) => q.eq("email", user.email!.toLowerCase()))
+      .collect();
+
+    const pending = [];
+    for (const invitation of invitations) {
+      const workspace = await ctx.db.get(invitation.workspaceId);
+      const inviter = await ctx.db.get(invitation.invitedBy);
+      if (workspace) {
+        pending.push({
+          _id: invitation._id,
+          workspaceName: workspace.name,
+          role: invitation.role,
+          invitedBy: inviter?.name ?? inviter?.email,
+        });
+      }
+    }
+    return pending;
+  },
+});
+
+// Joins the workspace with the code the inviter shared. The code works once.
+export const acceptInvitation = mutation({
+  args: {
+    invitationId: v.id("workspaceInvitations"),
+    code: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { userId, invitation } = await requireOwnInvitation(ctx, args.invitationId);
+    if (invitation.codeHash !== await sha256Hex(args.code.trim())) {
+      throw new Error("Invitation code is incorrect");
+    }
+
+    const membership = await getMembership(ctx, invitation.workspaceId, userId);
+    if (!membership) {
+      await ctx.db.insert("workspaceMembers", {
+        workspaceId: invitation.workspaceId,
+        userId,
+        role: invitation.role,
+      });
+    }
+    await ctx.db.delete(args.invitationId);
+
+    return invitation.workspaceId;
+  },
+});
+
+export const declineInvitation = mutation({
+  args: {
+    invitationId: v.id("workspaceInvitations"),
+  },
+  handler: async (ctx, args) => {
+    await requireOwnInvitation(ctx, args.invitationId);
+    await ctx.db.delete(args.invitationId);
+  },
+});
+
+export const updateMemberRole = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: workspaceRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireWorkspaceAccess(ctx, args.workspaceId, "owner");
+
+    const membership = await getMembership(ctx, args.workspaceId, args.userId);
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+    if (membership.role === "owner" && args.role !== "owner") {
+      await requireAnotherOwner(ctx, args.workspaceId, args.userId);
+    }
+
+    await ctx.db.patch(membership._id, { role: args.role });
+  },
+});
+
+// Owners can remove anyone; other members can only remove themselves
+export const removeMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const access = await requireWorkspaceAccess(ctx, args.workspaceId);
+    if (access.userId !== args.userId && !hasRole(access.role, "owner")) {
+      throw new Error("Only owners can remove other members");
+    }
+
+    const workspace = await ctx.db.get(args.workspaceId);
+    if (workspace?.personal && workspace.createdBy === args.userId) {
+      throw new Error("You can't leave your personal workspace");
+    }
+
+    const membership = await getMembership(ctx, args.workspaceId, args.userId);
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+    if (membership.role === "owner") {
+      await requireAnotherOwner(ctx, args.workspaceId, args.userId);
+    }
+
+    // Documents stay in the workspace when the person who uploaded them leaves
+    await ctx.db.delete(membership._id);
+  },
+});
+
+// For actions, which can't read the database to check access themselves
+export const getMemberRole = internalQuery({
+  args: {
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const membership = await getMembership(ctx, args.workspaceId, args.userId);
+    return membership?.role ?? null;
+  },
+});
+
+// Moves a user's documents, questions, conversations and settings from before
+// workspaces into their personal workspace, rescheduling itself until every
+// record has been moved
+export const migrateUserData = internalMutation({
+  args: {
+    userId: v.id("users"),
+    workspaceId: v.id("workspaces"),
+  },
+  handler: async (ctx, args) => {
+    const { userId, workspaceId } = args;
+    let budget = MIGRATION_BATCH_SIZE;
+
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_user_and_workspace", (q) => q.eq("uploadedBy", userId).eq("workspaceId", undefined))
+      .take(budget);
+    for (const document of documents) {
+      // Embeddings move first, so a document only appears in the workspace
+      // once all of it can be searched there
+      const embeddings = await ctx.db
+        .query("chunkEmbeddings")
+        .withIndex("by_document", (q) => q.eq("documentId", document._id))
+        .filter((q) => q.eq(q.field("workspaceId"), undefined))
+        .take(budget);
+      for (const embedding of embeddings) {
+        await ctx.db.patch(embedding._id, { workspaceId });
+      }
+      budget -= embeddings.length;
+      if (budget <= 0) break;
+
+      await ctx.db.patch(document._id, { workspaceId });
+      budget--;
+    }
+
+    if (budget > 0) {
+      const queries = await ctx.db
+        .query("queries")
+        .withIndex("by_user_and_workspace", (q) => q.eq("userId", userId).eq("workspaceId", undefined))
+        .take(budget);
+      for (const record of queries) {
+        await ctx.db.patch(record._id, { workspaceId });
+      }
+      budget -= queries.length;
+    }
+
+    if (budget > 0) {
+      const conversations = await ctx.db
+        .query("conversations")
+        .withIndex("by_user_workspace_and_updated", (q) => q.eq("userId", userId).eq("workspaceId", undefined))
+        .take(budget);
+      for (const conversation of conversations) {
+        await ctx.db.patch(conversation._id, { workspaceId });
+      }
+      budget -= conversations.length;
+    }
+
+    if (budget > 0) {
+      const settings = await ctx.db
+        .query("settings")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .unique();
+      if (settings) {
+        await ctx.db.patch(settings._id, { workspaceId, userId: undefined });
+        budget--;
+      }
+    }
+
+    if (budget <= 0) {
+      await ctx.scheduler.runAfter(0, internal.workspaces.migrateUserData, args);
+    }
+  },
+});
+
+export function hasRole(role: WorkspaceRole, minimumRole: WorkspaceRole) {
+  return ROLE_RANK[role] >= ROLE_RANK[minimumRole];
+}
+
+export async function getMembership(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  return await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", workspaceId).eq("userId", userId))
+    .unique();
+}
+
+// The signed-in user and their role in a workspace, or null unless they are
+// a member with at least `minimumRole`
+export async function getWorkspaceAccess(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    return null;
+  }
+
+  const membership = await getMembership(ctx, workspaceId, userId);
+  if (!membership || !hasRole(membership.role, minimumRole)) {
+    return null;
+  }
+  return { userId, role: membership.role };
+}
+
+export async function requireWorkspaceAccess(
+  ctx: QueryCtx,
+  workspaceId: Id<"workspaces">,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+
+  const access = await getWorkspaceAccess(ctx, workspaceId, minimumRole);
+  if (!access) {
+    throw new Error("Workspace not found or unauthorized");
+  }
+  return access;
+}
+
+// A document along with the signed-in user's role in its workspace, or null
+// unless they can access it with at least `minimumRole`
+export async function getDocumentAccess(
+  ctx: QueryCtx,
+  documentId: Id<"documents">,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  const document = await ctx.db.get(documentId);
+  if (!document?.workspaceId) {
+    return null;
+  }
+
+  const access = await getWorkspaceAccess(ctx, document.workspaceId, minimumRole);
+  return access && { ...access, document, workspaceId: document.workspaceId };
+}
+
+export async function requireDocumentAccess(
+  ctx: QueryCtx,
+  documentId: Id<"documents">,
+  minimumRole: WorkspaceRole = "viewer",
+) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+
+  const access = await getDocumentAccess(ctx, documentId, minimumRole);
+  if (!access) {
+    throw new Error("Document not found or unauthorized");
+  }
+  return access;
+}
+
+export async function findPersonalWorkspace(ctx: QueryCtx, userId: Id<"users">) {
+  const memberships = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  for (const membership of memberships) {
+    const workspace = await ctx.db.get(membership.workspaceId);
+    if (workspace?.personal && workspace.createdBy === userId) {
+      return workspace._id;
+    }
+  }
+  return null;
+}
+
+async function requireOwnInvitation(ctx: QueryCtx, invitationId: Id<"workspaceInvitations">) {
+  const userId = await getAuthUserId(ctx);
+  if (!userId) {
+    throw new Error("Not authenticated");
+  }
+
+  const invitation = await ctx.db.get(invitationId);
+  const user = await ctx.db.get(userId);
+  if (!invitation || invitation.email !== user?.email?.toLowerCase()) {
+    throw new Error("Invitation not found or unauthorized");
+  }
+  return { userId, invitation };
+}
+
+// A workspace must always keep at least one owner
+async function requireAnotherOwner(ctx: QueryCtx, workspaceId: Id<"workspaces">, userId: Id<"users">) {
+  const memberships = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspace_and_user", (q) => q.eq("workspaceId", workspaceId))
+    .collect();
+
+  if (!memberships.some((membership) => membership.role === "owner" && membership.userId !== userId)) {
+    throw new Error("A workspace needs at least one other owner first");
+  }
+}
+
+function validateWorkspaceName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Workspace name is required");
+  }
+  if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    throw new Error(`Workspace names can be at most ${MAX_WORKSPACE_NAME_LENGTH} characters long`);
+  }
+  return trimmed;
+}
@@ -1,3 +1,5 @@
+import os
+
 from fastapi import FastAPI, Request, HTTPException
 from pydantic import BaseModel
 from typing import List
@@ -5,8 +7,8 @@ import requests
 
 app = FastAPI()
 
-# Set your API key for authentication
-API_KEY = "my_secret_api_key"
+# The Convex deployment's HTTP actions URL, e.g. https://<deployment>.convex.site
+CONVEX_SITE_URL = os.environ["CONVEX_SITE_URL"]
 
 # Request body format
 class QueryRequest(BaseModel):
@@ -14,16 +16,20 @@ class QueryRequest(BaseModel):
     questions: List[str]
 
 @app.post("/hackrx/run")
-async def run_endpoint(request: Request, body: QueryRequest):
-    # Check Authorization header
-    auth_header = request.headers.get("Authorization")
-    if auth_header != f"Bearer {API_KEY}":
-        raise HTTPException(status_code=401, detail="Unauthorized")
-
-    # Here’s where you’ll process the PDF and answer questions
-    # For now, returning dummy answers
-    answers = []
-    for q in body.questions:
-        answers.append(f"Dummy answer for: {q}")
+def run_endpoint(request: Request, body: QueryRequest):
+    # API keys are created in the app and checked by the Convex route, which
+    # only stores their hashes, so pass the Authorization header through
+    response = requests.post(
+        f"{CONVEX_SITE_URL}/hackrx/run",
+        json=body.model_dump(),
+        headers={"Authorization": request.headers.get("Authorization", "")},
+        timeout=300,
+    )
+    if not response.ok:
+        try:
+            detail = response.json().get("detail", response.text)
+        except ValueError:
+            detail = response.text
+        raise HTTPException(status_code=response.status_code, detail=detail)
 
-    return {"answers": answers}
+    return response.json()
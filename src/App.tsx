@@ -5,26 +5,45 @@ import { SignOutButton } from "./SignOutButton";
 import { Toaster } from "sonner";
 import { DocumentManager } from "./components/DocumentManager";
 import { QueryInterface } from "./components/QueryInterface";
+import { AnalyticsPanel } from "./components/AnalyticsPanel";
+import { EvaluationPanel } from "./components/EvaluationPanel";
+import { FeedbackPanel } from "./components/FeedbackPanel";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { ApiKeysPanel } from "./components/ApiKeysPanel";
+import { UsagePanel } from "./components/UsageMeter";
+import { WorkspaceMembers } from "./components/WorkspaceMembers";
+import { PendingInvitations, useCurrentWorkspace, Workspace, WorkspaceSwitcher } from "./components/WorkspaceSwitcher";
+import { Id } from "../convex/_generated/dataModel";
 import { useState } from "react";
 
 export default function App() {
+  const { workspaces, workspace, selectWorkspace } = useCurrentWorkspace();
+
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
       <header className="sticky top-0 z-10 bg-white/80 backdrop-blur-sm h-16 flex justify-between items-center border-b shadow-sm px-4">
         <h2 className="text-xl font-semibold text-primary">Document Query System</h2>
-        <SignOutButton />
+        <div className="flex items-center gap-4">
+          <Authenticated>
+            <WorkspaceSwitcher workspaces={workspaces} workspace={workspace} onSelect={selectWorkspace} />
+          </Authenticated>
+          <SignOutButton />
+        </div>
       </header>
       <main className="flex-1 p-8">
-        <Content />
+        <Content workspace={workspace} onSelectWorkspace={selectWorkspace} />
       </main>
       <Toaster />
     </div>
   );
 }
 
-function Content() {
+function Content({ workspace, onSelectWorkspace }: {
+  workspace: Workspace | undefined;
+  onSelectWorkspace: (workspaceId: Id<"workspaces">) => void;
+}) {
   const loggedInUser = useQuery(api.auth.loggedInUser);
-  const [activeTab, setActiveTab] = useState<'documents' | 'query'>('documents');
+  const [activeTab, setActiveTab] = useState<'documents' | 'query' | 'analytics' | 'evaluation' | 'settings'>('documents');
 
   if (loggedInUser === undefined) {
     return (
@@ -46,6 +65,8 @@ function Content() {
           </p>
         </div>
 
+        <PendingInvitations onAccept={onSelectWorkspace} />
+
         <div className="mb-6">
           <nav className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
             <button
@@ -68,10 +89,71 @@ function Content() {
             >
               Query Documents
             </button>
+            {workspace?.role !== 'viewer' && (
+              <button
+                onClick={() => setActiveTab('analytics')}
+                className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                  activeTab === 'analytics'
+                    ? 'bg-white text-blue-600 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                Analytics
+              </button>
+            )}
+            <button
+              onClick={() => setActiveTab('evaluation')}
+              className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                activeTab === 'evaluation'
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Evaluation
+            </button>
+            <button
+              onClick={() => setActiveTab('settings')}
+              className={`px-4 py-2 rounded-md font-medium transition-colors ${
+                activeTab === 'settings'
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Settings
+            </button>
           </nav>
         </div>
 
-        {activeTab === 'documents' ? <DocumentManager /> : <QueryInterface />}
+        {!workspace ? (
+          <div className="flex justify-center items-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          // Keyed so that switching workspaces starts each tab afresh
+          <div key={workspace._id}>
+            {activeTab === 'documents' && (
+              <DocumentManager workspaceId={workspace._id} canEdit={workspace.role !== 'viewer'} />
+            )}
+            {activeTab === 'query' && <QueryInterface workspaceId={workspace._id} />}
+            {activeTab === 'analytics' && workspace.role !== 'viewer' && (
+              <AnalyticsPanel workspaceId={workspace._id} />
+            )}
+            {activeTab === 'evaluation' && (
+              <div className="space-y-6">
+                <EvaluationPanel workspaceId={workspace._id} canEdit={workspace.role !== 'viewer'} />
+                {workspace.role !== 'viewer' && <FeedbackPanel workspaceId={workspace._id} />}
+              </div>
+            )}
+            {activeTab === 'settings' && (
+              <div className="space-y-6">
+                <WorkspaceMembers workspace={workspace} currentUserId={loggedInUser?._id} />
+                <SettingsPanel workspaceId={workspace._id} canEdit={workspace.role !== 'viewer'} />
+                <UsagePanel workspaceId={workspace._id} canManage={workspace.role === 'owner'} />
+                <ApiKeysPanel workspaceId={workspace._id} canEdit={workspace.role !== 'viewer'} />
+              </div>
+            )}
+          </div>
+        )}
       </Authenticated>
 
       <Unauthenticated>
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { formatProcessingTime } from "./AnswerView";
+
+const PERIODS = [7, 30, 90];
+
+// How the workspace's documents are being queried, for editors and owners
+export function AnalyticsPanel({ workspaceId }: { workspaceId: Id<"workspaces"> }) {
+  const [days, setDays] = useState(30);
+  const analytics = useQuery(api.analytics.getQueryAnalytics, { workspaceId, days });
+
+  if (!analytics) {
+    return (
+      <div className="flex justify-center items-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { totals, volume, latency } = analytics;
+  const maxVolume = Math.max(1, ...volume.map((bucket) => bucket.queries));
+  const rate = (count: number) => totals.queries ? `${Math.round(count / totals.queries * 100)}%` : '—';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-500">
+          Questions asked by every member of this workspace, including through the HTTP API.
+          {analytics.truncated && ' Only the most recent questions in this period are included.'}
+        </p>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+        >
+          {PERIODS.map((period) => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-4 gap-4">
+        <Stat label="Questions" value={totals.queries.toLocaleString()} />
+        <Stat label="Failed" value={rate(totals.failed)} />
+        <Stat label="Abstained" value={rate(totals.abstained)} />
+        <Stat label="Low confidence" value={rate(totals.lowConfidence)} />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold mb-4">Query volume</h2>
+        <div className="flex items-end gap-px h-32">
+          {volume.map((bucket) => (
+            <div
+              key={bucket.day}
+              title={`${new Date(bucket.day).toLocaleDateString(undefined, { timeZone: 'UTC' })}: ${bucket.queries} questions, ${bucket.abstained} abstained, ${bucket.failed} failed`}
+              className="flex-1 bg-blue-500 hover:bg-blue-600 rounded-t-sm min-h-px"
+              style={{ height: `${bucket.queries / maxVolume * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{new Date(volume[0].day).toLocaleDateString(undefined, { timeZone: 'UTC' })}</span>
+          <span>{new Date(volume[volume.length - 1].day).toLocaleDateString(undefined, { timeZone: 'UTC' })}</span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold mb-4">Latency</h2>
+        <table className="text-sm">
+          <thead className="text-left text-xs text-gray-500">
+            <tr>
+              <th className="pr-8 py-1 font-medium"></th>
+              <th className="pr-8 py-1 font-medium">p50</th>
+              <th className="pr-8 py-1 font-medium">p95</th>
+            </tr>
+          </thead>
+          <tbody>
+            {([['Total', latency.total], ['Retrieval', latency.retrieval], ['Generation', latency.generation]] as const).map(([label, values]) => (
+              <tr key={label}>
+                <td className="pr-8 py-1 text-gray-700">{label}</td>
+                <td className="pr-8 py-1">{formatProcessingTime(values.p50)}</td>
+                <td className="pr-8 py-1">{formatProcessingTime(values.p95)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {latency.splitQueries < totals.queries - totals.failed && (
+          <p className="text-xs text-gray-500 mt-2">
+            Retrieval and generation times are only recorded for {latency.splitQueries} of these questions.
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold mb-4">Most cited documents</h2>
+          {analytics.mostCited.length === 0 ? (
+            <p className="text-sm text-gray-500">No answers have cited a document in this period.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {analytics.mostCited.map((document) => (
+                <li key={document.documentId} className="flex justify-between gap-4">
+                  <span className="truncate">{document.title}</span>
+                  <span className="text-gray-500 shrink-0">{document.citations}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-lg font-semibold mb-1">Never retrieved</h2>
+          <p className="text-xs text-gray-500 mb-4">Current documents that no question in this period found.</p>
+          {analytics.neverRetrieved.length === 0 ? (
+            <p className="text-sm text-gray-500">Every document was retrieved at least once.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {analytics.neverRetrieved.map((document) => (
+                <li key={document.documentId} className="flex justify-between gap-4">
+                  <span className="truncate">{document.title}</span>
+                  <span className="text-gray-500 shrink-0">uploaded {new Date(document.uploadedAt).toLocaleDateString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h2 className="text-lg font-semibold mb-1">Unanswered and low-confidence questions</h2>
+        <p className="text-xs text-gray-500 mb-4">The most recent questions the documents couldn't answer well; candidates for new documents.</p>
+        {analytics.problemQuestions.length === 0 ? (
+          <p className="text-sm text-gray-500">None in this period.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {analytics.problemQuestions.map((item) => (
+              <li key={item.queryId} className="py-2 flex justify-between gap-4">
+                <span>{item.question}</span>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {item.abstained ? 'No answer' : 'Low confidence'} · {new Date(item.askedAt).toLocaleDateString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+    </div>
+  );
+}
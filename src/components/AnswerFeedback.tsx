@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+type Feedback = Doc<"feedback">;
+type FeedbackReason = NonNullable<Feedback["reason"]>;
+
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReason, string> = {
+  incorrect: 'Incorrect',
+  incomplete: 'Incomplete',
+  unsupported: 'Not supported by the sources',
+  irrelevant: 'Not relevant to the question',
+  outdated: 'Out of date',
+  other: 'Other',
+};
+
+const ANSWER_REASONS: FeedbackReason[] = ['incorrect', 'incomplete', 'unsupported', 'outdated', 'other'];
+const SOURCE_REASONS: FeedbackReason[] = ['irrelevant', 'outdated', 'incorrect', 'other'];
+
+// Thumbs up or down on an answer, with an optional reason, comment and corrected answer
+export function AnswerFeedback({ queryId, feedback }: {
+  queryId: Id<"queries">;
+  feedback: Feedback | undefined;
+}) {
+  const submitFeedback = useMutation(api.feedback.submitFeedback);
+  const removeFeedback = useMutation(api.feedback.removeFeedback);
+
+  // Null while the details form is closed
+  const [draft, setDraft] = useState<{ reason: FeedbackReason | ''; comment: string; correction: string } | null>(null);
+
+  const handleRate = async (rating: Feedback["rating"]) => {
+    try {
+      if (feedback?.rating === rating) {
+        await removeFeedback({ queryId });
+        setDraft(null);
+        return;
+      }
+      await submitFeedback({ queryId, rating });
+      if (rating === 'down') {
+        setDraft({ reason: '', comment: '', correction: '' });
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save feedback');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !feedback) return;
+
+    try {
+      await submitFeedback({
+        queryId,
+        rating: feedback.rating,
+        reason: draft.reason || undefined,
+        comment: draft.comment,
+        correction: draft.correction,
+      });
+      setDraft(null);
+      toast.success('Thanks for the feedback');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save feedback');
+    }
+  };
+
+  return (
+    <div className="mt-4 text-sm">
+      <div className="flex items-center gap-2 text-gray-500">
+        <span>Was this answer helpful?</span>
+        <RatingButton rating="up" selected={feedback?.rating === 'up'} onClick={() => handleRate('up')} />
+        <RatingButton rating="down" selected={feedback?.rating === 'down'} onClick={() => handleRate('down')} />
+        {feedback && !draft && (
+          <button
+            onClick={() => setDraft({
+              reason: feedback.reason ?? '',
+              comment: feedback.comment ?? '',
+              correction: feedback.correction ?? '',
+            })}
+            className="text-blue-600 hover:text-blue-800 ml-2"
+          >
+            {feedback.reason || feedback.comment || feedback.correction ? 'Edit details' : 'Add details'}
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="mt-3 space-y-3 bg-gray-50 p-4 rounded-lg">
+          <select
+            value={draft.reason}
+            onChange={(e) => setDraft({ ...draft, reason: e.target.value as FeedbackReason | '' })}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          >
+            <option value="">Reason (optional)</option>
+            {ANSWER_REASONS.map((reason) => (
+              <option key={reason} value={reason}>{FEEDBACK_REASON_LABELS[reason]}</option>
+            ))}
+          </select>
+          <textarea
+            value={draft.comment}
+            onChange={(e) => setDraft({ ...draft, comment: e.target.value })}
+            placeholder="What was wrong or missing? (optional)"
+            rows={2}
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+          />
+          <textarea
+            value={draft.correction}
+            onChange={(e) => setDraft({ ...draft, correction: e.target.value })}
+            placeholder="What should the answer have said? (optional)"
+            rows={3}
+            className="w-full border border-gray-300 rounded-md px-3 py-2"
+          />
+          <div className="flex justify-between items-center">
+            <p className="text-xs text-gray-500">
+              Editors and owners can see feedback along with the question and answer.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="px-3 py-1 text-gray-600 hover:text-gray-900"
+              >
+                Cancel
+              </button>
+              <button type="submit" className="bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700">
+                Save
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Whether a source was relevant to the question, with a reason when it wasn't
+export function SourceFeedback({ queryId, sourceIndex, feedback }: {
+  queryId: Id<"queries">;
+  sourceIndex: number;
+  feedback: Feedback | undefined;
+}) {
+  const submitFeedback = useMutation(api.feedback.submitFeedback);
+  const removeFeedback = useMutation(api.feedback.removeFeedback);
+
+  const handleRate = async (rating: Feedback["rating"]) => {
+    try {
+      if (feedback?.rating === rating) {
+        await removeFeedback({ queryId, sourceIndex });
+      } else {
+        await submitFeedback({ queryId, sourceIndex, rating, reason: rating === 'down' ? 'irrelevant' : undefined });
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save feedback');
+    }
+  };
+
+  const handleReasonChange = async (reason: FeedbackReason) => {
+    try {
+      await submitFeedback({ queryId, sourceIndex, rating: 'down', reason });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save feedback');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+      <span>Relevant?</span>
+      <RatingButton rating="up" selected={feedback?.rating === 'up'} onClick={() => handleRate('up')} />
+      <RatingButton rating="down" selected={feedback?.rating === 'down'} onClick={() => handleRate('down')} />
+      {feedback?.rating === 'down' && (
+        <select
+          value={feedback.reason ?? 'irrelevant'}
+          onChange={(e) => handleReasonChange(e.target.value as FeedbackReason)}
+          className="border border-gray-300 rounded-md px-1 py-0.5"
+        >
+          {SOURCE_REASONS.map((reason) => (
+            <option key={reason} value={reason}>{FEEDBACK_REASON_LABELS[reason]}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+function RatingButton({ rating, selected, onClick }: {
+  rating: Feedback["rating"];
+  selected: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-1.5 rounded ${selected ? 'bg-blue-100' : 'opacity-50 hover:opacity-100'}`}
+      title={rating === 'up' ? 'Yes' : 'No'}
+    >
+      {rating === 'up' ? '👍' : '👎'}
+    </button>
+  );
+}
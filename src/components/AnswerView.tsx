@@ -0,0 +1,241 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { AnswerFeedback, SourceFeedback } from "./AnswerFeedback";
+import { describeScope } from "./ScopePicker";
+
+type Source = Doc<"queries">["sources"][number];
+
+export function formatProcessingTime(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+// Answer and sources for a single query record, updating live while the
+// answer streams in
+export function AnswerView({ result }: { result: Doc<"queries"> }) {
+  const [activeSource, setActiveSource] = useState<number | null>(null);
+  const [showSources, setShowSources] = useState(false);
+  const isComplete = result.status === "complete" || !result.status;
+  const feedback = useQuery(api.feedback.getQueryFeedback, isComplete ? { queryId: result._id } : "skip") || [];
+
+  const handleCitationClick = (sourceIndex: number) => {
+    setActiveSource(sourceIndex);
+    setShowSources(true);
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-start mb-2">
+        <h3 className="text-sm font-semibold text-gray-700">Answer</h3>
+        <span className="text-xs text-gray-500">
+          {result.status === "retrieving" && "Searching documents..."}
+          {result.status === "generating" && "Generating answer..."}
+          {result.status === "grading" && "Checking answer against sources..."}
+          {isComplete && `Processed in ${formatProcessingTime(result.processingTime)}`}
+          {result.status === "complete" && result.usage && (
+            <span title={`${result.usage.promptTokens.toLocaleString()} prompt + ${result.usage.completionTokens.toLocaleString()} completion tokens`}>
+              {` · ${(result.usage.promptTokens + result.usage.completionTokens).toLocaleString()} tokens`}
+            </span>
+          )}
+        </span>
+      </div>
+
+      {result.cached && (
+        <p className="text-xs text-gray-500 mb-2" title="Reused because the documents and model settings haven't changed since">
+          Cached answer{result.cached.similarQuestion && ' to a similar question'}, first generated {new Date(result.cached.answeredAt).toLocaleString()}
+        </p>
+      )}
+
+      {result.scope && (
+        <p className="text-xs text-gray-500 mb-2">
+          Searched in: {describeScope(result.scope)}
+        </p>
+      )}
+
+      {result.retrievalQuery && (
+        <p className="text-xs text-gray-500 mb-2">
+          Searched for: "{result.retrievalQuery}"
+        </p>
+      )}
+
+      <div className="prose max-w-none mb-4">
+        {result.status === "failed" ? (
+          <div className="bg-red-50 text-red-700 p-4 rounded-lg">
+            {result.error || "Failed to process query"}
+          </div>
+        ) : result.abstained ? (
+          <div className="bg-gray-100 text-gray-700 p-4 rounded-lg">
+            <p className="font-medium">Not found in your documents</p>
+            <p className="text-sm">{result.response}</p>
+          </div>
+        ) : (
+          <div className="bg-blue-50 p-4 rounded-lg whitespace-pre-wrap">
+            {result.answerSentences ? (
+              result.answerSentences.map((sentence, index) => (
+                <span key={index}>
+                  {index > 0 && " "}
+                  {result.groundedness?.unsupportedSentences.includes(index + 1) ? (
+                    <span
+                      className="underline decoration-dotted decoration-amber-500"
+                      title="Not supported by the sources"
+                    >
+                      {sentence.text}
+                    </span>
+                  ) : (
+                    sentence.text
+                  )}
+                  {sentence.sourceIndices.map((sourceIndex) => (
+                    <button
+                      key={sourceIndex}
+                      onClick={() => handleCitationClick(sourceIndex)}
+                      className={`align-super text-xs font-medium ml-0.5 px-1 rounded ${
+                        activeSource === sourceIndex
+                          ? 'bg-blue-600 text-white'
+                          : 'text-blue-600 hover:bg-blue-100'
+                      }`}
+                      title={`Source ${sourceIndex}: ${result.sources[sourceIndex - 1]?.documentTitle ?? ''}`}
+                    >
+                      [{sourceIndex}]
+                    </button>
+                  ))}
+                </span>
+              ))
+            ) : (
+              result.response
+            )}
+            {result.status === "generating" && (
+              <span className="inline-block w-2 h-4 ml-1 bg-blue-400 animate-pulse align-middle" />
+            )}
+          </div>
+        )}
+      </div>
+
+      {result.groundedness && (
+        <p className="text-sm mb-4">
+          Answer confidence:{' '}
+          <span className={`font-medium ${CONFIDENCE_STYLES[result.groundedness.level]}`}>
+            {CONFIDENCE_LABELS[result.groundedness.level]}
+          </span>
+          <span className="text-gray-500">
+            {' '}· {Math.round(result.groundedness.score * 100)}% of sentences supported by the sources
+          </span>
+        </p>
+      )}
+
+      {result.sources.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowSources(!showSources)}
+            className="font-medium text-sm mb-3"
+          >
+            {showSources ? '▾' : '▸'} Sources Referenced ({result.sources.length})
+          </button>
+          {showSources && (
+            <div className="space-y-3">
+              {result.sources.map((source, index) => (
+                <SourceCard
+                  key={index}
+                  source={source}
+                  sourceIndex={index + 1}
+                  active={activeSource === index + 1}
+                  onSelect={() => setActiveSource(activeSource === index + 1 ? null : index + 1)}
+                  feedback={isComplete && (
+                    <SourceFeedback
+                      queryId={result._id}
+                      sourceIndex={index + 1}
+                      feedback={feedback.find((item) => item.sourceIndex === index + 1)}
+                    />
+                  )}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isComplete && (
+        <AnswerFeedback
+          queryId={result._id}
+          feedback={feedback.find((item) => item.sourceIndex === undefined)}
+        />
+      )}
+    </div>
+  );
+}
+
+const CONFIDENCE_LABELS = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+const CONFIDENCE_STYLES = {
+  high: 'text-green-700',
+  medium: 'text-amber-600',
+  low: 'text-red-600',
+};
+
+function SourceCard({ source, sourceIndex, active, onSelect, feedback }: {
+  source: Source;
+  sourceIndex: number;
+  active: boolean;
+  onSelect: () => void;
+  // Rating controls, once the answer is complete
+  feedback: React.ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  // The cited span in the context of its document, loaded when the source is selected
+  const excerpt = useQuery(
+    api.documents.getSourceExcerpt,
+    active ? { documentId: source.documentId, startIndex: source.startIndex, endIndex: source.endIndex } : "skip"
+  );
+
+  useEffect(() => {
+    if (active) {
+      ref.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  }, [active]);
+
+  return (
+    <div
+      ref={ref}
+      className={`border-l-4 pl-4 py-2 transition-colors ${active ? 'border-blue-600 bg-blue-50/50' : 'border-blue-200'}`}
+    >
+      <div className="flex justify-between items-start mb-2">
+        <button onClick={onSelect} className="font-medium text-sm text-left hover:text-blue-700">
+          Source {sourceIndex}: {source.documentTitle}
+        </button>
+        <span className="text-xs text-gray-500 text-right">
+          Confidence: {(source.confidence * 100).toFixed(1)}%
+          {source.scores && (
+            <span className="block">
+              {source.scores.semantic !== undefined && `Semantic ${source.scores.semantic.toFixed(2)}`}
+              {source.scores.semantic !== undefined && source.scores.keyword !== undefined && ' · '}
+              {source.scores.keyword !== undefined && `Keyword ${source.scores.keyword.toFixed(2)}`}
+            </span>
+          )}
+        </span>
+      </div>
+      {active && excerpt ? (
+        <p className="text-sm text-gray-500 bg-gray-50 p-3 rounded whitespace-pre-wrap max-h-64 overflow-y-auto">
+          {excerpt.truncatedStart && '…'}
+          {excerpt.before}
+          <mark className="bg-yellow-200 text-gray-900">{excerpt.span}</mark>
+          {excerpt.after}
+          {excerpt.truncatedEnd && '…'}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">
+          "{source.relevantChunk}"
+        </p>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        {source.sectionPath && `${source.sectionPath.join(' › ')} · `}
+        {source.pageNumber !== undefined && `Page ${source.pageNumber} · `}
+        Characters {source.startIndex}-{source.endIndex}
+      </p>
+      {feedback}
+    </div>
+  );
+}
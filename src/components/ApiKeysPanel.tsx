@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+type Scope = 'read' | 'ingest';
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  read: 'Read-only',
+  ingest: 'Read & ingest',
+};
+
+// Keys for calling the HTTP API as the signed-in user in this workspace
+export function ApiKeysPanel({ workspaceId, canEdit }: {
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}) {
+  const keys = useQuery(api.apiKeys.listApiKeys, { workspaceId }) || [];
+  const createApiKey = useMutation(api.apiKeys.createApiKey);
+  const rotateApiKey = useMutation(api.apiKeys.rotateApiKey);
+  const revokeApiKey = useMutation(api.apiKeys.revokeApiKey);
+
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<Scope>('read');
+  // The plaintext of a key just created or rotated; it can't be shown again
+  const [revealed, setRevealed] = useState<{ name: string; key: string } | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      const key = await createApiKey({ workspaceId, name, scope });
+      setRevealed({ name: name.trim(), key });
+      setName("");
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create API key');
+    }
+  };
+
+  const handleRotate = async (keyId: Id<"apiKeys">, keyName: string) => {
+    if (!confirm(`Rotate "${keyName}"? The current key will stop working immediately.`)) return;
+
+    try {
+      setRevealed({ name: keyName, key: await rotateApiKey({ keyId }) });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to rotate API key');
+    }
+  };
+
+  const handleRevoke = async (keyId: Id<"apiKeys">, keyName: string) => {
+    if (!confirm(`Revoke "${keyName}"? Requests using it will be rejected.`)) return;
+
+    try {
+      await revokeApiKey({ keyId });
+      toast.success('API key revoked');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to revoke API key');
+    }
+  };
+
+  const handleCopy = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Failed to copy; select the key and copy it manually');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h2 className="text-xl font-semibold mb-1">API Keys</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Requests made with a key act as you in this workspace. Read-only keys can ask questions; ingest keys can also add documents.
+      </p>
+
+      {revealed && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg text-sm">
+          <p className="mb-2">
+            Copy the key for <span className="font-medium">{revealed.name}</span> now. It won't be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white border rounded px-2 py-1 font-mono text-xs break-all">{revealed.key}</code>
+            <button onClick={() => handleCopy(revealed.key)} className="text-blue-600 hover:text-blue-800">
+              Copy
+            </button>
+            <button onClick={() => setRevealed(null)} className="text-gray-500 hover:text-gray-700">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {keys.length > 0 && (
+        <ul className="divide-y border rounded-md mb-4">
+          {keys.map((key) => (
+            <li key={key._id} className="flex items-center justify-between px-4 py-2 text-sm">
+              <div>
+                <p>
+                  <span className="font-medium">{key.name}</span>
+                  <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                    {SCOPE_LABELS[key.scope]}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  <code className="font-mono">{key.keyPrefix}…</code>
+                  {' · '}created {new Date(key._creationTime).toLocaleDateString()}
+                  {key.rotatedAt && ` · rotated ${new Date(key.rotatedAt).toLocaleDateString()}`}
+                  {' · '}{key.lastUsedAt ? `last used ${new Date(key.lastUsedAt).toLocaleString()}` : 'never used'}
+                </p>
+              </div>
+              <div className="space-x-3">
+                <button onClick={() => handleRotate(key._id, key.name)} className="text-blue-600 hover:text-blue-800">
+                  Rotate
+                </button>
+                <button onClick={() => handleRevoke(key._id, key.name)} className="text-red-600 hover:text-red-800">
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Key name, e.g. CI pipeline"
+          className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as Scope)}
+          className="border border-gray-300 rounded-md px-2 py-2 text-sm"
+        >
+          <option value="read">{SCOPE_LABELS.read}</option>
+          {canEdit && <option value="ingest">{SCOPE_LABELS.ingest}</option>}
+        </select>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+        >
+          Create key
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useAction, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+type BatchAnswer = FunctionReturnType<typeof api.batch.answerQuestions>[number];
+
+// Many questions about one document, pasted one per line
+export function BatchQuery({ workspaceId }: { workspaceId: Id<"workspaces"> }) {
+  const documents = useQuery(api.documents.listDocuments, { workspaceId }) || [];
+  const answerQuestions = useAction(api.batch.answerQuestions);
+
+  const [source, setSource] = useState<'document' | 'url'>('document');
+  const [documentId, setDocumentId] = useState<Id<"documents"> | "">("");
+  const [url, setUrl] = useState("");
+  const [questionText, setQuestionText] = useState("");
+  const [concurrency, setConcurrency] = useState(4);
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<BatchAnswer[]>([]);
+
+  const readyDocuments = documents.filter((doc) => (!doc.status || doc.status === "ready") && !doc.supersededBy);
+  const questions = questionText.split('\n').map((line) => line.trim()).filter(Boolean);
+  const hasDocument = source === 'document' ? documentId !== "" : url.trim() !== "";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasDocument || questions.length === 0) return;
+
+    setIsRunning(true);
+    setResults([]);
+
+    try {
+      const answers = await answerQuestions({
+        workspaceId,
+        documentId: source === 'document' && documentId ? documentId : undefined,
+        url: source === 'url' ? url.trim() : undefined,
+        questions,
+        concurrency,
+      });
+      setResults(answers);
+      const failed = answers.filter((answer) => answer.error).length;
+      if (failed > 0) {
+        toast.error(`${failed} question${failed !== 1 ? 's' : ''} could not be answered`);
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to answer questions");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-xl font-semibold">Batch Questions</h2>
+        <p className="text-sm text-gray-500">Ask many questions about one document at once.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={source === 'document'}
+              onChange={() => setSource('document')}
+            />
+            Uploaded document
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={source === 'url'}
+              onChange={() => setSource('url')}
+            />
+            Document URL
+          </label>
+        </div>
+
+        {source === 'document' ? (
+          <select
+            value={documentId}
+            onChange={(e) => setDocumentId(e.target.value as Id<"documents">)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2"
+          >
+            <option value="">Choose a document...</option>
+            {readyDocuments.map((doc) => (
+              <option key={doc._id} value={doc._id}>{doc.title}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/policy.pdf"
+            className="w-full border border-gray-300 rounded-lg px-3 py-2"
+          />
+        )}
+
+        <textarea
+          value={questionText}
+          onChange={(e) => setQuestionText(e.target.value)}
+          placeholder={"One question per line, e.g.\nWhat is the grace period for premium payment?\nDoes the policy cover maternity expenses?"}
+          className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y font-mono text-sm"
+          rows={8}
+          disabled={isRunning}
+        />
+
+        <div className="flex justify-between items-center">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            {questions.length} question{questions.length !== 1 ? 's' : ''} · Answer
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="w-16 border border-gray-300 rounded-md px-2 py-1"
+            />
+            at a time
+          </label>
+          <button
+            type="submit"
+            disabled={!hasDocument || questions.length === 0 || isRunning}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? "Answering..." : "Answer All"}
+          </button>
+        </div>
+      </form>
+
+      {results.length > 0 && (
+        <div className="border-t">
+          <div className="px-6 py-3 flex justify-between items-center bg-gray-50">
+            <h3 className="text-sm font-semibold text-gray-700">Results</h3>
+            <div className="space-x-3 text-sm">
+              <button onClick={() => exportResults(results, 'json')} className="text-blue-600 hover:text-blue-800">
+                Export JSON
+              </button>
+              <button onClick={() => exportResults(results, 'csv')} className="text-blue-600 hover:text-blue-800">
+                Export CSV
+              </button>
+            </div>
+          </div>
+          <ol className="divide-y">
+            {results.map((result, index) => (
+              <li key={index} className="p-6">
+                <p className="font-medium text-sm mb-2">{index + 1}. {result.question}</p>
+                {result.error ? (
+                  <p className="text-sm text-red-700">{result.error}</p>
+                ) : (
+                  <p className={`text-sm ${result.abstained ? 'text-gray-500 italic' : 'text-gray-700'}`}>
+                    {result.answer}
+                  </p>
+                )}
+                {result.sources.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Sources: {result.sources
+                      .map((source) => source.sectionPath?.join(' › ') ?? (source.pageNumber !== undefined ? `Page ${source.pageNumber}` : source.documentTitle))
+                      .join('; ')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function exportResults(results: BatchAnswer[], format: 'json' | 'csv') {
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(results, null, 2);
+  } else {
+    const rows = [
+      ['question', 'answer', 'abstained', 'sources', 'error'],
+      ...results.map((result) => [
+        result.question,
+        result.answer,
+        String(result.abstained),
+        result.sources.map((source) => source.relevantChunk).join('\n---\n'),
+        result.error ?? '',
+      ]),
+    ];
+    content = rows.map((row) => row.map(csvField).join(',')).join('\n');
+  }
+
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `answers.${format}`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+function csvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
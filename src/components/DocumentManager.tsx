@@ -1,18 +1,39 @@
 import { useState, useRef } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
 import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
 import { toast } from "sonner";
+import { FEEDBACK_REASON_LABELS } from "./AnswerFeedback";
 
-export function DocumentManager() {
-  const documents = useQuery(api.documents.listDocuments) || [];
+// Viewers see the workspace's documents; editors and owners can also change them
+export function DocumentManager({ workspaceId, canEdit }: {
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}) {
+  const documents = useQuery(api.documents.listDocuments, { workspaceId }) || [];
   const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
   const saveDocument = useMutation(api.documents.saveDocument);
   const deleteDocument = useMutation(api.documents.deleteDocument);
+  const reprocessDocument = useMutation(api.documents.reprocessDocument);
+  const ingestFromUrl = useAction(api.ingest.ingestFromUrl);
+  const settings = useQuery(api.settings.getSettings, { workspaceId });
+  const documentFeedback = useQuery(api.feedback.listDocumentFeedback, { workspaceId }) || [];
+  const updateSettings = useMutation(api.settings.updateSettings);
   
   const [isUploading, setIsUploading] = useState(false);
+  const [url, setUrl] = useState("");
+  // Null until changed here, so uploads use the saved default
+  const [chunkingOverride, setChunking] = useState<ChunkingSettings | null>(null);
+  const chunking = chunkingOverride ?? settings?.chunking ?? DEFAULT_CHUNKING.fixed;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The document a new version is being uploaded for
+  const [versionTarget, setVersionTarget] = useState<Id<"documents"> | null>(null);
+  const versionInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const latestDocuments = documents.filter((doc) => !doc.supersededBy);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>, previousVersionId?: Id<"documents">) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
@@ -26,9 +47,6 @@ export function DocumentManager() {
     setIsUploading(true);
     
     try {
-      // Read file content
-      const content = await readFileContent(file);
-      
       // Generate upload URL for file storage
       const uploadUrl = await generateUploadUrl();
       
@@ -45,21 +63,25 @@ export function DocumentManager() {
       
       const { storageId } = await result.json();
       
-      // Save document metadata and content
-      await saveDocument({
+      // Save document metadata; text is extracted from the stored file on the server
+      const saved = await saveDocument({
+        workspaceId,
         title: file.name,
-        content,
         fileType: file.type,
         fileSize: file.size,
         storageId,
+        chunking: chunkingOverride ?? undefined,
+        previousVersionId,
       });
       
-      toast.success('Document uploaded successfully!');
+      if (saved.duplicate) {
+        toast.info('This file has already been uploaded');
+      } else {
+        toast.success(previousVersionId ? 'New version uploaded successfully!' : 'Document uploaded successfully!');
+      }
       
       // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      event.target.value = '';
     } catch (error) {
       console.error('Upload error:', error);
       toast.error('Failed to upload document');
@@ -68,27 +90,53 @@ export function DocumentManager() {
     }
   };
 
+  const handleAddFromUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setIsUploading(true);
+
+    try {
+      const result = await ingestFromUrl({ workspaceId, url: url.trim(), chunking: chunkingOverride ?? undefined });
+      toast.success(result.duplicate
+        ? 'This document has already been added'
+        : 'Document added successfully!');
+      setUrl("");
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add document from URL');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSaveDefaultChunking = async () => {
+    try {
+      await updateSettings({ workspaceId, chunking });
+      setChunking(null);
+      toast.success('Default chunking settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save chunking settings');
+    }
+  };
+
   const handleDelete = async (documentId: any) => {
     if (!confirm('Are you sure you want to delete this document?')) return;
     
     try {
       await deleteDocument({ documentId });
       toast.success('Document deleted successfully');
-    } catch (error) {
+    } catch {
       toast.error('Failed to delete document');
     }
   };
 
-  const readFileContent = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const content = e.target?.result as string;
-        resolve(content);
-      };
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
-    });
+  const handleReprocess = async (documentId: Id<"documents">) => {
+    try {
+      await reprocessDocument({ documentId });
+      toast.success('Document queued for reprocessing');
+    } catch {
+      toast.error('Failed to reprocess document');
+    }
   };
 
   const formatFileSize = (bytes: number) => {
@@ -102,81 +150,206 @@ export function DocumentManager() {
   return (
     <div className="space-y-6">
       {/* Upload Section */}
-      <div className="bg-white rounded-lg shadow-sm border p-6">
-        <h2 className="text-xl font-semibold mb-4">Upload Documents</h2>
-        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".txt,.pdf,.html"
-            onChange={handleFileUpload}
-            disabled={isUploading}
-            className="hidden"
-          />
-          <div className="space-y-4">
-            <div className="text-gray-500">
-              <svg className="mx-auto h-12 w-12" stroke="currentColor" fill="none" viewBox="0 0 48 48">
-                <path d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" />
-              </svg>
+      {canEdit && (
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <h2 className="text-xl font-semibold mb-4">Upload Documents</h2>
+          <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.pdf,.html"
+              onChange={handleFileUpload}
+              disabled={isUploading}
+              className="hidden"
+            />
+            <div className="space-y-4">
+              <div className="text-gray-500">
+                <svg className="mx-auto h-12 w-12" stroke="currentColor" fill="none" viewBox="0 0 48 48">
+                  <path d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" />
+                </svg>
+              </div>
+              <div>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isUploading ? 'Uploading...' : 'Choose File'}
+                </button>
+                <p className="text-sm text-gray-500 mt-2">
+                  Supports: Text files (.txt), PDF files (.pdf), HTML files (.html)
+                </p>
+              </div>
             </div>
-            <div>
+          </div>
+          <form onSubmit={handleAddFromUrl} className="flex gap-2 mt-4">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="Or add from a URL, e.g. https://example.com/policy.pdf"
+              disabled={isUploading}
+              className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!url.trim() || isUploading}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              Add from URL
+            </button>
+          </form>
+          <div className="flex flex-wrap items-center gap-4 mt-4 text-sm text-gray-600">
+            <label className="flex items-center gap-2">
+              Chunking
+              <select
+                value={chunking.strategy}
+                onChange={(e) => setChunking(DEFAULT_CHUNKING[e.target.value as ChunkingSettings['strategy']])}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              >
+                <option value="fixed">Fixed windows</option>
+                <option value="sentence">Sentences &amp; paragraphs</option>
+                <option value="section">Sections &amp; clauses</option>
+                <option value="tokens">Token count</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Size
+              <input
+                type="number"
+                min={1}
+                value={chunking.chunkSize}
+                onChange={(e) => setChunking({ ...chunking, chunkSize: Number(e.target.value) })}
+                className="w-20 border border-gray-300 rounded-md px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              Overlap
+              <input
+                type="number"
+                min={0}
+                value={chunking.overlap}
+                onChange={(e) => setChunking({ ...chunking, overlap: Number(e.target.value) })}
+                className="w-20 border border-gray-300 rounded-md px-2 py-1"
+              />
+            </label>
+            <span className="text-xs text-gray-400">
+              {chunking.strategy === 'tokens' ? 'in tokens' : 'in characters'}
+            </span>
+            {chunkingOverride && (
               <button
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isUploading}
-                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                onClick={() => handleSaveDefaultChunking()}
+                className="text-blue-600 hover:text-blue-800"
               >
-                {isUploading ? 'Uploading...' : 'Choose File'}
+                Save as default
               </button>
-              <p className="text-sm text-gray-500 mt-2">
-                Supports: Text files (.txt), PDF files (.pdf), HTML files (.html)
-              </p>
-            </div>
+            )}
           </div>
         </div>
-      </div>
+      )}
 
       {/* Documents List */}
       <div className="bg-white rounded-lg shadow-sm border">
         <div className="p-6 border-b">
-          <h2 className="text-xl font-semibold">Your Documents ({documents.length})</h2>
+          <h2 className="text-xl font-semibold">Documents ({latestDocuments.length})</h2>
         </div>
+        <input
+          ref={versionInputRef}
+          type="file"
+          accept=".txt,.pdf,.html"
+          onChange={(e) => handleFileUpload(e, versionTarget ?? undefined)}
+          disabled={isUploading}
+          className="hidden"
+        />
         
-        {documents.length === 0 ? (
+        {latestDocuments.length === 0 ? (
           <div className="p-8 text-center text-gray-500">
             <p>No documents uploaded yet.</p>
-            <p className="text-sm mt-1">Upload your first document to get started!</p>
+            {canEdit && <p className="text-sm mt-1">Upload your first document to get started!</p>}
           </div>
         ) : (
           <div className="divide-y">
-            {documents.map((doc) => (
+            {latestDocuments.map((doc) => (
               <div key={doc._id} className="p-6 flex items-center justify-between">
                 <div className="flex-1">
-                  <h3 className="font-medium text-gray-900">{doc.title}</h3>
+                  <h3 className="font-medium text-gray-900">
+                    {doc.title}
+                    {doc.version > 1 && <span className="ml-2 text-xs text-gray-500">v{doc.version}</span>}
+                  </h3>
+                  {doc.sourceUrl && (
+                    <a
+                      href={doc.sourceUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-blue-600 hover:underline break-all"
+                    >
+                      {doc.sourceUrl}
+                    </a>
+                  )}
                   <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
                     <span>{formatFileSize(doc.fileSize)}</span>
                     <span>{doc.fileType}</span>
                     <span>
                       {new Date(doc._creationTime).toLocaleDateString()}
                     </span>
-                    {doc.processedAt && (
-                      <span className="text-green-600">✓ Processed</span>
-                    )}
+                    <StatusBadge doc={doc} />
                   </div>
-                  {doc.chunks && (
+                  {doc.processingError && (
+                    <div className="text-xs text-red-500 mt-1">
+                      {doc.processingError}
+                      {doc.status === 'queued' && ` (retrying, attempt ${(doc.attempts ?? 0) + 1})`}
+                    </div>
+                  )}
+                  {doc.chunkCount !== undefined && (
                     <div className="text-xs text-gray-400 mt-1">
-                      {doc.chunks.length} chunks created
+                      {doc.chunkCount} chunks created
+                      {doc.chunking && ` · ${doc.chunking.strategy} chunking`}
+                      {doc.pageCount !== undefined && ` · ${doc.pageCount} pages`}
+                      {!!doc.headingCount && ` · ${doc.headingCount} headings`}
                     </div>
                   )}
+                  <FeedbackSummary summary={documentFeedback.find((item) => item.documentId === doc._id)} />
+                  <DocumentTags doc={doc} canEdit={canEdit} />
+                  <VersionHistory
+                    doc={doc}
+                    versions={documents
+                      .filter((other) => (other.versionOf ?? other._id) === (doc.versionOf ?? doc._id))
+                      .sort((a, b) => b.version - a.version)}
+                  />
                 </div>
-                <button
-                  onClick={() => handleDelete(doc._id)}
-                  className="text-red-600 hover:text-red-800 p-2"
-                  title="Delete document"
-                >
-                  <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                </button>
+                {canEdit && (
+                  <>
+                    <button
+                      onClick={() => {
+                        setVersionTarget(doc._id);
+                        versionInputRef.current?.click();
+                      }}
+                      disabled={isUploading}
+                      className="text-blue-600 hover:text-blue-800 text-sm px-2 disabled:opacity-50"
+                      title="Upload a new version of this document"
+                    >
+                      New version
+                    </button>
+                    {(doc.status === 'failed' || doc.status === 'ready' || (!doc.status && doc.processedAt)) && (
+                      <button
+                        onClick={() => handleReprocess(doc._id)}
+                        className="text-blue-600 hover:text-blue-800 text-sm px-2"
+                        title="Reprocess document"
+                      >
+                        Reprocess
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(doc._id)}
+                      className="text-red-600 hover:text-red-800 p-2"
+                      title="Delete document"
+                    >
+                      <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </>
+                )}
               </div>
             ))}
           </div>
@@ -185,3 +358,201 @@ export function DocumentManager() {
     </div>
   );
 }
+
+type DocumentSummary = FunctionReturnType<typeof api.documents.listDocuments>[number];
+type DocumentFeedback = FunctionReturnType<typeof api.feedback.listDocumentFeedback>[number];
+type ChunkingSettings = NonNullable<Doc<"documents">["chunking"]>;
+
+// Mirrors DEFAULT_CHUNKING in convex/chunking.ts
+const DEFAULT_CHUNKING: Record<ChunkingSettings['strategy'], ChunkingSettings> = {
+  fixed: { strategy: 'fixed', chunkSize: 1000, overlap: 200 },
+  sentence: { strategy: 'sentence', chunkSize: 1000, overlap: 200 },
+  section: { strategy: 'section', chunkSize: 1500, overlap: 200 },
+  tokens: { strategy: 'tokens', chunkSize: 256, overlap: 32 },
+};
+
+const STATUS_LABELS = {
+  queued: 'Queued',
+  extracting: 'Extracting text...',
+  chunking: 'Chunking...',
+  embedding: 'Embedding',
+  ready: '✓ Processed',
+  failed: '✗ Failed',
+};
+
+function StatusBadge({ doc }: { doc: DocumentSummary }) {
+  const status = doc.status ?? (doc.processedAt ? 'ready' : 'queued');
+
+  if (status === 'ready') {
+    return <span className="text-green-600">{STATUS_LABELS.ready}</span>;
+  }
+  if (status === 'failed') {
+    return <span className="text-red-600">{STATUS_LABELS.failed}</span>;
+  }
+  return (
+    <span className="text-amber-600">
+      {STATUS_LABELS[status]}
+      {status === 'embedding' && doc.progress !== undefined && ` ${Math.round(doc.progress * 100)}%`}
+    </span>
+  );
+}
+
+// How often the document's passages were rated relevant when cited as sources
+function FeedbackSummary({ summary }: { summary: DocumentFeedback | undefined }) {
+  if (!summary) {
+    return null;
+  }
+
+  return (
+    <div className="text-xs text-gray-500 mt-1">
+      As a source: 👍 {summary.relevant} · 👎 {summary.notRelevant}
+      {summary.topReason && ` · mostly "${FEEDBACK_REASON_LABELS[summary.topReason].toLowerCase()}"`}
+    </div>
+  );
+}
+
+function DocumentTags({ doc, canEdit }: { doc: DocumentSummary; canEdit: boolean }) {
+  const updateDocumentTags = useMutation(api.documents.updateDocumentTags);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (draft === null) return;
+
+    try {
+      await updateDocumentTags({ documentId: doc._id, tags: draft.split(',') });
+      setDraft(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update tags');
+    }
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="flex items-center gap-2 mt-2">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') void handleSave();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          placeholder="Comma-separated tags, e.g. health, 2024"
+          className="text-sm border border-gray-300 rounded-md px-2 py-1 w-72"
+        />
+        <button onClick={() => handleSave()} className="text-sm text-blue-600 hover:text-blue-800">
+          Save
+        </button>
+        <button onClick={() => setDraft(null)} className="text-sm text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2">
+      {doc.tags.map((tag) => (
+        <span key={tag} className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+          {tag}
+        </span>
+      ))}
+      {canEdit && (
+        <button
+          onClick={() => setDraft(doc.tags.join(', '))}
+          className="text-xs text-blue-600 hover:text-blue-800 ml-1"
+        >
+          {doc.tags.length > 0 ? 'Edit tags' : '+ Add tags'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Earlier versions of a document, with the changes each version made
+function VersionHistory({ doc, versions }: { doc: DocumentSummary; versions: DocumentSummary[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [diffFor, setDiffFor] = useState<Id<"documents"> | null>(null);
+
+  if (versions.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-gray-500 hover:text-gray-700">
+        {isOpen ? '▾' : '▸'} Version history ({versions.length})
+      </button>
+      {isOpen && (
+        <ul className="mt-2 space-y-2">
+          {versions.map((version) => (
+            <li key={version._id}>
+              <div className="flex items-center gap-3 text-gray-600">
+                <span className="font-medium">v{version.version}</span>
+                <span>{version.title}</span>
+                <span>{new Date(version._creationTime).toLocaleString()}</span>
+                {version._id === doc._id && <span className="text-green-600">current</span>}
+                {version.previousVersionId && (
+                  <button
+                    onClick={() => setDiffFor(diffFor === version._id ? null : version._id)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    {diffFor === version._id ? 'Hide changes' : 'Show changes'}
+                  </button>
+                )}
+              </div>
+              {diffFor === version._id && <VersionDiff documentId={version._id} />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function VersionDiff({ documentId }: { documentId: Id<"documents"> }) {
+  const diff = useQuery(api.documents.getVersionDiff, { documentId });
+
+  if (diff === undefined) {
+    return <p className="mt-2 text-gray-400">Loading changes...</p>;
+  }
+  if (diff === null) {
+    return <p className="mt-2 text-gray-400">The previous version is no longer available.</p>;
+  }
+  if (diff.hunks.length === 0) {
+    return <p className="mt-2 text-gray-400">No text changes from v{diff.previousVersion}.</p>;
+  }
+
+  return (
+    <div className="mt-2 border rounded-md overflow-auto max-h-96 font-mono text-xs">
+      <p className="px-3 py-1 bg-gray-50 border-b text-gray-500 font-sans">
+        Changes from v{diff.previousVersion} to v{diff.version}
+      </p>
+      {diff.hunks.map((hunk, index) =>
+        hunk.type === 'skipped' ? (
+          <p key={index} className="px-3 py-1 bg-gray-50 text-gray-400">
+            ⋯ {hunk.count} unchanged line{hunk.count !== 1 ? 's' : ''}
+          </p>
+        ) : (
+          hunk.lines.map((line, lineIndex) => (
+            <pre key={`${index}-${lineIndex}`} className={`px-3 whitespace-pre-wrap ${DIFF_STYLES[hunk.type]}`}>
+              {DIFF_MARKERS[hunk.type]} {line}
+            </pre>
+          ))
+        )
+      )}
+    </div>
+  );
+}
+
+const DIFF_STYLES = {
+  equal: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const DIFF_MARKERS = {
+  equal: ' ',
+  added: '+',
+  removed: '-',
+};
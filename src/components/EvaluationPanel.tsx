@@ -0,0 +1,421 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { formatProcessingTime } from "./AnswerView";
+
+// Retrieval sources considered for recall@k; the pipeline returns at most five
+const K_OPTIONS = [1, 3, 5];
+
+function formatScore(value: number | undefined) {
+  return value === undefined ? '—' : `${Math.round(value * 100)}%`;
+}
+
+// Golden question sets and how well the pipeline answers them over time
+export function EvaluationPanel({ workspaceId, canEdit }: {
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}) {
+  const goldenSets = useQuery(api.evaluations.listGoldenSets, { workspaceId }) || [];
+  const createGoldenSet = useMutation(api.evaluations.createGoldenSet);
+
+  const [selectedSetId, setSelectedSetId] = useState<Id<"goldenSets"> | null>(null);
+  const [name, setName] = useState("");
+
+  const selectedSet = goldenSets.find((goldenSet) => goldenSet._id === selectedSetId) ?? goldenSets[0];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setSelectedSetId(await createGoldenSet({ workspaceId, name }));
+      setName("");
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create golden set');
+    }
+  };
+
+  return (
+    <div className="flex gap-6 items-start">
+      <div className="w-64 shrink-0 bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b">
+          <h2 className="font-semibold">Golden sets</h2>
+          <p className="text-xs text-gray-500">Questions with known answers and sources.</p>
+        </div>
+        {goldenSets.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500">No golden sets yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {goldenSets.map((goldenSet) => (
+              <li key={goldenSet._id}>
+                <button
+                  onClick={() => setSelectedSetId(goldenSet._id)}
+                  className={`w-full text-left px-4 py-3 text-sm ${
+                    goldenSet._id === selectedSet?._id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <p className="font-medium truncate">{goldenSet.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {goldenSet.questionCount} question{goldenSet.questionCount !== 1 ? 's' : ''}
+                    {goldenSet.latestRun?.metrics && (
+                      ` · recall@${goldenSet.latestRun.k} ${formatScore(goldenSet.latestRun.metrics.recallAtK)}`
+                    )}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {canEdit && (
+          <form onSubmit={handleCreate} className="p-4 border-t space-y-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New golden set"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="w-full bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              Create
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        {selectedSet ? (
+          <GoldenSetDetail
+            key={selectedSet._id}
+            workspaceId={workspaceId}
+            goldenSetId={selectedSet._id}
+            name={selectedSet.name}
+            canEdit={canEdit}
+            onDeleted={() => setSelectedSetId(null)}
+          />
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border p-6 text-sm text-gray-500">
+            Create a golden set to measure how changes to chunking, retrieval or prompts affect answers.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function GoldenSetDetail({ workspaceId, goldenSetId, name, canEdit, onDeleted }: {
+  workspaceId: Id<"workspaces">;
+  goldenSetId: Id<"goldenSets">;
+  name: string;
+  canEdit: boolean;
+  onDeleted: () => void;
+}) {
+  const runs = useQuery(api.evaluations.listEvaluationRuns, { goldenSetId }) || [];
+  const startEvaluationRun = useMutation(api.evaluations.startEvaluationRun);
+  const cancelEvaluationRun = useMutation(api.evaluations.cancelEvaluationRun);
+  const deleteGoldenSet = useMutation(api.evaluations.deleteGoldenSet);
+
+  const [k, setK] = useState(5);
+  const [selectedRunId, setSelectedRunId] = useState<Id<"evaluationRuns"> | null>(null);
+
+  const handleRun = async () => {
+    try {
+      setSelectedRunId(await startEvaluationRun({ goldenSetId, k }));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to start evaluation');
+    }
+  };
+
+  const handleCancel = async (runId: Id<"evaluationRuns">) => {
+    if (!confirm('Cancel this run? Questions answered so far are kept.')) return;
+
+    try {
+      await cancelEvaluationRun({ runId });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to cancel evaluation');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${name}" along with its questions and past runs?`)) return;
+
+    try {
+      await deleteGoldenSet({ goldenSetId });
+      onDeleted();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete golden set');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-6 border-b flex justify-between items-center gap-4">
+          <h2 className="text-xl font-semibold truncate">{name}</h2>
+          {canEdit && (
+            <div className="flex items-center gap-3 text-sm shrink-0">
+              <label className="flex items-center gap-2 text-gray-600">
+                k
+                <select
+                  value={k}
+                  onChange={(e) => setK(Number(e.target.value))}
+                  className="border border-gray-300 rounded-md px-2 py-1"
+                >
+                  {K_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => handleRun()}
+                disabled={runs.some((run) => run.status === 'running')}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Run evaluation
+              </button>
+              <button onClick={() => handleDelete()} className="text-red-600 hover:text-red-800">
+                Delete
+              </button>
+            </div>
+          )}
+        </div>
+
+        {runs.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No runs yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-500 border-b">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Started</th>
+                  <th className="px-4 py-2 font-medium">Model</th>
+                  <th className="px-4 py-2 font-medium">Recall@k</th>
+                  <th className="px-4 py-2 font-medium">MRR</th>
+                  <th className="px-4 py-2 font-medium">Answer match</th>
+                  <th className="px-4 py-2 font-medium">Latency (mean / p95)</th>
+                  <th className="px-4 py-2 font-medium">Errors</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {runs.map((run) => (
+                  <tr
+                    key={run._id}
+                    onClick={() => setSelectedRunId(run._id)}
+                    className={`cursor-pointer ${run._id === selectedRunId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(run._creationTime).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {run.config.modelSettings.model}
+                      {run.config.llmProvider !== 'openai' && ` (${run.config.llmProvider})`}
+                    </td>
+                    {run.status === 'running' && (
+                      <td colSpan={5} className="px-4 py-2 text-gray-500">
+                        Running... {run.completedQuestions}/{run.totalQuestions}
+                        {canEdit && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              void handleCancel(run._id);
+                            }}
+                            className="ml-3 text-red-600 hover:text-red-800"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    )}
+                    {run.status === 'failed' && (
+                      <td colSpan={5} className="px-4 py-2 text-red-600">{run.error || 'Failed'}</td>
+                    )}
+                    {run.status === 'complete' && run.metrics && (
+                      <>
+                        <td className="px-4 py-2">{formatScore(run.metrics.recallAtK)} <span className="text-gray-400">@{run.k}</span></td>
+                        <td className="px-4 py-2">{run.metrics.mrr === undefined ? '—' : run.metrics.mrr.toFixed(2)}</td>
+                        <td className="px-4 py-2">{formatScore(run.metrics.answerMatch)}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {formatProcessingTime(Math.round(run.metrics.meanLatencyMs))} / {formatProcessingTime(run.metrics.p95LatencyMs)}
+                        </td>
+                        <td className="px-4 py-2">{run.metrics.errors}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedRunId && <RunResults runId={selectedRunId} />}
+
+      <GoldenQuestions workspaceId={workspaceId} goldenSetId={goldenSetId} canEdit={canEdit} />
+    </div>
+  );
+}
+
+function RunResults({ runId }: { runId: Id<"evaluationRuns"> }) {
+  const run = useQuery(api.evaluations.getEvaluationRun, { runId });
+
+  if (!run) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-4 border-b text-sm text-gray-600">
+        Run of {new Date(run._creationTime).toLocaleString()} · {run.config.modelSettings.model}, temperature {run.config.modelSettings.temperature}
+        {' · '}{run.config.llmProvider} model, {run.config.embeddingProvider} embeddings
+        {run.metrics && (
+          <>
+            {' · '}{Math.round(run.metrics.abstentionRate * 100)}% abstained
+            {' · '}retrieval {formatProcessingTime(Math.round(run.metrics.meanRetrievalMs))}, generation {formatProcessingTime(Math.round(run.metrics.meanGenerationMs))} on average
+          </>
+        )}
+      </div>
+      <ul className="divide-y">
+        {run.results.map((result, index) => (
+          <li key={index} className="px-4 py-3 text-sm">
+            <div className="flex justify-between gap-4">
+              <p className="font-medium">{result.question}</p>
+              <p className="text-xs text-gray-500 whitespace-nowrap">
+                {result.sourceRank !== undefined && (
+                  result.sourceRank === null ? 'source not retrieved' : `source rank ${result.sourceRank}`
+                )}
+                {result.answerScore !== undefined && ` · match ${formatScore(result.answerScore)}`}
+                {' · '}{formatProcessingTime(result.retrievalMs + result.generationMs)}
+              </p>
+            </div>
+            {result.error ? (
+              <p className="text-red-600 mt-1">{result.error}</p>
+            ) : (
+              <p className={`mt-1 ${result.abstained ? 'text-gray-500 italic' : 'text-gray-700'}`}>{result.answer}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function GoldenQuestions({ workspaceId, goldenSetId, canEdit }: {
+  workspaceId: Id<"workspaces">;
+  goldenSetId: Id<"goldenSets">;
+  canEdit: boolean;
+}) {
+  const questions = useQuery(api.evaluations.listGoldenQuestions, { goldenSetId }) || [];
+  const documents = useQuery(api.documents.listDocuments, { workspaceId }) || [];
+  const addGoldenQuestion = useMutation(api.evaluations.addGoldenQuestion);
+  const deleteGoldenQuestion = useMutation(api.evaluations.deleteGoldenQuestion);
+
+  const [question, setQuestion] = useState("");
+  const [expectedAnswer, setExpectedAnswer] = useState("");
+  const [documentId, setDocumentId] = useState<Id<"documents"> | "">("");
+  const [passage, setPassage] = useState("");
+
+  const readyDocuments = documents.filter((doc) => (!doc.status || doc.status === "ready") && !doc.supersededBy);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    try {
+      await addGoldenQuestion({
+        goldenSetId,
+        question,
+        expectedAnswer: expectedAnswer.trim() || undefined,
+        expectedSource: documentId && passage.trim() ? { documentId, text: passage } : undefined,
+      });
+      setQuestion("");
+      setExpectedAnswer("");
+      setPassage("");
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add question');
+    }
+  };
+
+  const handleDelete = async (questionId: Id<"goldenQuestions">) => {
+    try {
+      await deleteGoldenQuestion({ questionId });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete question');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-4 border-b">
+        <h3 className="font-semibold">Questions ({questions.length})</h3>
+      </div>
+      {questions.length > 0 && (
+        <ul className="divide-y">
+          {questions.map((item) => (
+            <li key={item._id} className="px-4 py-3 text-sm flex justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium">{item.question}</p>
+                {item.expectedAnswer && <p className="text-gray-700">Expected: {item.expectedAnswer}</p>}
+                {item.expectedSource && (
+                  <p className="text-xs text-gray-500 truncate">
+                    Source: {item.expectedSourceTitle ?? 'Deleted document'}
+                    {item.expectedSourceText && ` — "${item.expectedSourceText}"`}
+                  </p>
+                )}
+              </div>
+              {canEdit && (
+                <button onClick={() => handleDelete(item._id)} className="text-red-600 hover:text-red-800 shrink-0">
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="p-4 border-t space-y-2">
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Question"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <input
+            value={expectedAnswer}
+            onChange={(e) => setExpectedAnswer(e.target.value)}
+            placeholder="Expected answer (optional)"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          />
+          <select
+            value={documentId}
+            onChange={(e) => setDocumentId(e.target.value as Id<"documents">)}
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="">Expected source document (optional)</option>
+            {readyDocuments.map((doc) => (
+              <option key={doc._id} value={doc._id}>{doc.title}</option>
+            ))}
+          </select>
+          {documentId && (
+            <textarea
+              value={passage}
+              onChange={(e) => setPassage(e.target.value)}
+              placeholder="Paste the passage from the document that contains the answer"
+              rows={3}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={!question.trim()}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            Add question
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
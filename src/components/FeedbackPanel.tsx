@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { FEEDBACK_REASON_LABELS } from "./AnswerFeedback";
+
+// Recent feedback on answers and sources, for editors and owners to review,
+// export and turn into golden questions
+export function FeedbackPanel({ workspaceId }: { workspaceId: Id<"workspaces"> }) {
+  const feedback = useQuery(api.feedback.listFeedback, { workspaceId }) || [];
+  const goldenSets = useQuery(api.evaluations.listGoldenSets, { workspaceId }) || [];
+  const exportFeedback = useAction(api.feedback.exportFeedback);
+  const promoteFeedback = useMutation(api.feedback.promoteFeedback);
+
+  const [filter, setFilter] = useState<'all' | 'down' | 'corrected'>('all');
+  const [goldenSetId, setGoldenSetId] = useState<Id<"goldenSets"> | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const targetSet = goldenSets.find((goldenSet) => goldenSet._id === goldenSetId) ?? goldenSets[0];
+  const shown = feedback.filter((item) =>
+    filter === 'all' || (filter === 'down' ? item.rating === 'down' : item.correction !== undefined)
+  );
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setIsExporting(true);
+    try {
+      downloadFeedback(await exportFeedback({ workspaceId }), format);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to export feedback');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePromote = async (feedbackId: Id<"feedback">) => {
+    if (!targetSet) return;
+
+    try {
+      await promoteFeedback({ feedbackId, goldenSetId: targetSet._id });
+      toast.success(`Added to "${targetSet.name}"`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add question to golden set');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Answer feedback</h2>
+          <p className="text-sm text-gray-500">
+            Ratings members gave their own answers and sources. Corrected answers can be added to a golden set.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-sm shrink-0">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={isExporting || feedback.length === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={isExporting || feedback.length === 0}
+            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-3 border-b flex justify-between items-center text-sm">
+        <div className="flex space-x-1">
+          {(['all', 'down', 'corrected'] as const).map((item) => (
+            <button
+              key={item}
+              onClick={() => setFilter(item)}
+              className={`px-3 py-1 rounded-md ${
+                filter === item ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {item === 'all' ? 'All' : item === 'down' ? 'Rated down' : 'With corrections'}
+            </button>
+          ))}
+        </div>
+        {goldenSets.length > 0 && (
+          <label className="flex items-center gap-2 text-gray-600">
+            Add to
+            <select
+              value={targetSet?._id}
+              onChange={(e) => setGoldenSetId(e.target.value as Id<"goldenSets">)}
+              className="border border-gray-300 rounded-md px-2 py-1"
+            >
+              {goldenSets.map((goldenSet) => (
+                <option key={goldenSet._id} value={goldenSet._id}>{goldenSet.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">
+          {feedback.length === 0 ? 'No feedback yet.' : 'No feedback matches this filter.'}
+        </p>
+      ) : (
+        <ul className="divide-y max-h-[40rem] overflow-y-auto">
+          {shown.map((item) => (
+            <li key={item._id} className="p-4 text-sm space-y-2">
+              <div className="flex justify-between items-start gap-4">
+                <p className="font-medium">
+                  <span className="mr-2">{item.rating === 'up' ? '👍' : '👎'}</span>
+                  {item.question}
+                </p>
+                <span className="text-xs text-gray-500 shrink-0">
+                  {new Date(item.updatedAt).toLocaleString()}
+                </span>
+              </div>
+              {item.sourceIndex !== undefined ? (
+                <p className="text-gray-600">
+                  Source {item.sourceIndex}: {item.documentTitle ?? 'Unknown document'}
+                  {item.sourceText && <span className="block text-xs text-gray-500 line-clamp-2">"{item.sourceText}"</span>}
+                </p>
+              ) : (
+                <p className="text-gray-600 line-clamp-3">{item.answer}</p>
+              )}
+              {(item.reason || item.comment) && (
+                <p className="text-gray-700">
+                  {item.reason && <span className="font-medium">{FEEDBACK_REASON_LABELS[item.reason]}</span>}
+                  {item.reason && item.comment && ': '}
+                  {item.comment}
+                </p>
+              )}
+              {item.correction && (
+                <p className="bg-green-50 text-green-900 p-3 rounded whitespace-pre-wrap">
+                  <span className="block text-xs font-medium text-green-700 mb-1">Corrected answer</span>
+                  {item.correction}
+                </p>
+              )}
+              {item.sourceIndex === undefined && (
+                <div className="text-xs">
+                  {item.promotedTo ? (
+                    <span className="text-green-600">✓ Added to a golden set</span>
+                  ) : targetSet ? (
+                    <button onClick={() => handlePromote(item._id)} className="text-blue-600 hover:text-blue-800">
+                      Add to golden set
+                    </button>
+                  ) : (
+                    <span className="text-gray-500">Create a golden set to add this question to it.</span>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+type FeedbackEntry = FunctionReturnType<typeof api.feedback.exportFeedback>[number];
+
+function downloadFeedback(entries: FeedbackEntry[], format: 'json' | 'csv') {
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(entries, null, 2);
+  } else {
+    const rows = [
+      ['updatedAt', 'question', 'answer', 'target', 'document', 'rating', 'reason', 'comment', 'correction'],
+      ...entries.map((entry) => [
+        new Date(entry.updatedAt).toISOString(),
+        entry.question,
+        entry.answer,
+        entry.sourceIndex === undefined ? 'answer' : `source ${entry.sourceIndex}`,
+        entry.documentTitle ?? '',
+        entry.rating,
+        entry.reason ?? '',
+        entry.comment ?? '',
+        entry.correction ?? '',
+      ]),
+    ];
+    content = rows.map((row) => row.map(csvField).join(',')).join('\n');
+  }
+
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `feedback.${format}`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+function csvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useConvex, usePaginatedQuery, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { AnswerView, formatProcessingTime } from "./AnswerView";
+
+const PAGE_SIZE = 20;
+
+type ExportFormat = 'json' | 'csv' | 'md';
+
+// The user's earlier questions, searchable and loaded a page at a time. Entries
+// open into the full answer, and selected entries can be exported.
+export function QueryHistory({ workspaceId, onOpenConversation }: {
+  workspaceId: Id<"workspaces">;
+  onOpenConversation: (conversationId: Id<"conversations">) => void;
+}) {
+  const convex = useConvex();
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.queries.getQueryHistory,
+    { workspaceId, search: search || undefined },
+    { initialNumItems: PAGE_SIZE },
+  );
+
+  const [openQueryId, setOpenQueryId] = useState<Id<"queries"> | null>(null);
+  const [selected, setSelected] = useState<Set<Id<"queries">>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  const toggleSelected = (queryId: Id<"queries">) => {
+    const next = new Set(selected);
+    if (next.has(queryId)) {
+      next.delete(queryId);
+    } else {
+      next.add(queryId);
+    }
+    setSelected(next);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const records = await convex.query(api.queries.getQueriesForExport, { queryIds: [...selected] });
+      // Oldest first, so conversations read in order
+      downloadHistory(records.sort((a, b) => a._creationTime - b._creationTime), format);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to export history');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (status === 'LoadingFirstPage' || (results.length === 0 && !search)) {
+    return null;
+  }
+
+  const allSelected = results.length > 0 && results.every((item) => selected.has(item._id));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b space-y-4">
+        <div className="flex justify-between items-center gap-4">
+          <h3 className="text-lg font-semibold">Query History</h3>
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => {
+                setSearchInput(e.target.value);
+                if (!e.target.value) setSearch("");
+              }}
+              placeholder="Search questions and answers"
+              className="w-72 border border-gray-300 rounded-md px-3 py-1.5 text-sm"
+            />
+            <button type="submit" className="text-sm text-blue-600 hover:text-blue-800 px-2">
+              Search
+            </button>
+          </form>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <label className="flex items-center gap-2 text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(results.map((item) => item._id)))}
+            />
+            {selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+          </label>
+          <div className="flex items-center gap-3">
+            <span className="text-gray-500">Export selected as</span>
+            {(['json', 'csv', 'md'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={selected.size === 0 || isExporting}
+                className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                {format === 'md' ? 'Markdown' : format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {results.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No questions match "{search}".</p>
+      ) : (
+        <div className="divide-y max-h-[40rem] overflow-y-auto">
+          {search && <p className="px-4 py-2 text-xs text-gray-500">Best matches first</p>}
+          {results.map((item) => (
+            <div key={item._id} className="p-4 flex gap-3">
+              <input
+                type="checkbox"
+                checked={selected.has(item._id)}
+                onChange={() => toggleSelected(item._id)}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0">
+                <button
+                  onClick={() => setOpenQueryId(openQueryId === item._id ? null : item._id)}
+                  className="w-full text-left"
+                >
+                  <div className="flex justify-between items-start mb-2 gap-4">
+                    <p className="font-medium text-sm">
+                      {openQueryId === item._id ? '▾' : '▸'} {item.query}
+                    </p>
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {new Date(item._creationTime).toLocaleString()}
+                    </span>
+                  </div>
+                  {openQueryId !== item._id && (
+                    <>
+                      <p className="text-sm text-gray-600 mb-2 line-clamp-2">
+                        {item.status === 'failed' ? item.error || 'Failed to process query' : item.response}
+                      </p>
+                      <div className="flex justify-between items-center text-xs text-gray-500">
+                        <span>
+                          {item.abstained
+                            ? 'Not found in your documents'
+                            : `${item.sourceCount} sources used`}
+                          {item.confidence && ` · ${item.confidence} confidence`}
+                        </span>
+                        <span>{formatProcessingTime(item.processingTime)}</span>
+                      </div>
+                    </>
+                  )}
+                </button>
+                {openQueryId === item._id && (
+                  <div className="mt-3">
+                    <HistoryAnswer queryId={item._id} />
+                    {item.conversationId && (
+                      <button
+                        onClick={() => onOpenConversation(item.conversationId!)}
+                        className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        Continue this conversation
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {status === 'CanLoadMore' && (
+            <div className="p-4 text-center">
+              <button onClick={() => loadMore(PAGE_SIZE)} className="text-sm text-blue-600 hover:text-blue-800">
+                Load more
+              </button>
+            </div>
+          )}
+          {status === 'LoadingMore' && <p className="p-4 text-center text-sm text-gray-500">Loading...</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The full record, with its sources, loaded when an entry is opened
+function HistoryAnswer({ queryId }: { queryId: Id<"queries"> }) {
+  const record = useQuery(api.queries.getQuery, { queryId });
+
+  if (record === undefined) {
+    return <p className="text-sm text-gray-500">Loading answer...</p>;
+  }
+  if (record === null) {
+    return <p className="text-sm text-gray-500">This question is no longer available.</p>;
+  }
+  return <AnswerView result={record} />;
+}
+
+// The answer with a [n] marker after each sentence for the sources it cites
+function citedAnswer(record: Doc<"queries">) {
+  if (record.status === 'failed') {
+    return record.error || 'Failed to process query';
+  }
+  if (!record.answerSentences) {
+    return record.response;
+  }
+  return record.answerSentences
+    .map((sentence) => sentence.text + sentence.sourceIndices.map((index) => `[${index}]`).join(''))
+    .join(' ');
+}
+
+function describeSource(source: Doc<"queries">["sources"][number]) {
+  return [
+    source.documentTitle,
+    source.pageNumber !== undefined ? `page ${source.pageNumber}` : undefined,
+    source.sectionPath?.join(' › '),
+  ].filter(Boolean).join(', ');
+}
+
+function downloadHistory(records: Doc<"queries">[], format: ExportFormat) {
+  let content: string;
+  if (format === 'json') {
+    content = JSON.stringify(records.map((record) => ({
+      question: record.query,
+      askedAt: new Date(record._creationTime).toISOString(),
+      answer: citedAnswer(record),
+      abstained: record.abstained ?? false,
+      confidence: record.groundedness?.level,
+      sources: record.sources.map((source, index) => ({
+        index: index + 1,
+        document: source.documentTitle,
+        pageNumber: source.pageNumber,
+        section: source.sectionPath,
+        startIndex: source.startIndex,
+        endIndex: source.endIndex,
+        excerpt: source.relevantChunk,
+      })),
+    })), null, 2);
+  } else if (format === 'csv') {
+    const rows = [
+      ['askedAt', 'question', 'answer', 'abstained', 'sources'],
+      ...records.map((record) => [
+        new Date(record._creationTime).toISOString(),
+        record.query,
+        citedAnswer(record),
+        String(record.abstained ?? false),
+        record.sources.map((source, index) => `[${index + 1}] ${describeSource(source)}`).join('\n'),
+      ]),
+    ];
+    content = rows.map((row) => row.map(csvField).join(',')).join('\n');
+  } else {
+    content = records.map((record) => [
+      `## ${record.query}`,
+      `_Asked ${new Date(record._creationTime).toLocaleString()}_`,
+      citedAnswer(record),
+      ...(record.sources.length > 0 ? [
+        '**Sources**',
+        record.sources
+          .map((source, index) => `${index + 1}. ${describeSource(source)}\n\n   > ${source.relevantChunk.replace(/\s*\n\s*/g, ' ')}`)
+          .join('\n'),
+      ] : []),
+    ].join('\n\n')).join('\n\n---\n\n');
+  }
+
+  const blob = new Blob([content], {
+    type: format === 'json' ? 'application/json' : format === 'csv' ? 'text/csv' : 'text/markdown',
+  });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `query-history.${format}`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+function csvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -1,16 +1,28 @@
 import { useState } from "react";
-import { useAction, useQuery } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
 import { toast } from "sonner";
+import { AnswerView } from "./AnswerView";
+import { BatchQuery } from "./BatchQuery";
+import { QueryHistory } from "./QueryHistory";
+import { QueryScope, ScopePicker } from "./ScopePicker";
+import { UsageMeter } from "./UsageMeter";
 
-export function QueryInterface() {
+export function QueryInterface({ workspaceId }: { workspaceId: Id<"workspaces"> }) {
   const [query, setQuery] = useState("");
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentResult, setCurrentResult] = useState<any>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [conversationId, setConversationId] = useState<Id<"conversations"> | null>(null);
+  const [mode, setMode] = useState<'conversation' | 'batch'>('conversation');
+  const [scope, setScope] = useState<QueryScope>({});
+  const [bypassCache, setBypassCache] = useState(false);
   
-  const processQuery = useAction(api.queries.processQuery);
-  const queryHistory = useQuery(api.queries.getQueryHistory) || [];
-  const documents = useQuery(api.documents.listDocuments) || [];
+  const submitQuery = useMutation(api.queries.submitQuery);
+  const deleteConversation = useMutation(api.conversations.deleteConversation);
+  const conversations = useQuery(api.conversations.listConversations, { workspaceId }) || [];
+  // Sources and answers stream into the conversation's turns while they are processed
+  const conversation = useQuery(api.conversations.getConversation, conversationId ? { conversationId } : "skip");
+  const documents = useQuery(api.documents.listDocuments, { workspaceId }) || [];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,124 +33,179 @@ export function QueryInterface() {
       return;
     }
 
-    setIsProcessing(true);
-    setCurrentResult(null);
+    setIsSubmitting(true);
 
     try {
-      const result = await processQuery({ query });
-      setCurrentResult(result);
+      const result = await submitQuery({
+        workspaceId,
+        query,
+        conversationId: conversationId ?? undefined,
+        scope: Object.values(scope).some((value) => value !== undefined) ? scope : undefined,
+        bypassCache: bypassCache || undefined,
+      });
+      setConversationId(result.conversationId);
       setQuery("");
     } catch (error: any) {
       toast.error(error.message || "Failed to process query");
     } finally {
-      setIsProcessing(false);
+      setIsSubmitting(false);
     }
   };
 
-  const formatProcessingTime = (ms: number) => {
-    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  const handleDeleteConversation = async (id: Id<"conversations">) => {
+    if (!confirm('Delete this conversation? Its questions stay in your query history.')) return;
+
+    try {
+      await deleteConversation({ conversationId: id });
+      if (id === conversationId) {
+        setConversationId(null);
+      }
+    } catch (error: any) {
+      toast.error(error.message || "Failed to delete conversation");
+    }
   };
 
+  const lastTurn = conversation?.turns[conversation.turns.length - 1];
+  const isProcessing = isSubmitting ||
+    lastTurn?.status === "retrieving" ||
+    lastTurn?.status === "generating" ||
+    lastTurn?.status === "grading";
+
   return (
     <div className="space-y-6">
-      {/* Query Input */}
-      <div className="bg-white rounded-lg shadow-sm border p-6">
-        <h2 className="text-xl font-semibold mb-4">Ask a Question</h2>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <textarea
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              placeholder="Ask anything about your documents... e.g., 'What are the key policies mentioned?' or 'Summarize the main points about data privacy'"
-              className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-              rows={4}
-              disabled={isProcessing}
-            />
-          </div>
-          <div className="flex justify-between items-center">
-            <p className="text-sm text-gray-500">
-              {documents.length} document{documents.length !== 1 ? 's' : ''} available for querying
-            </p>
+      <div className="flex justify-between items-center gap-6">
+        <div className="flex space-x-1 text-sm">
+          {(['conversation', 'batch'] as const).map((item) => (
             <button
-              type="submit"
-              disabled={!query.trim() || isProcessing || documents.length === 0}
-              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              key={item}
+              onClick={() => setMode(item)}
+              className={`px-3 py-1 rounded-md ${
+                mode === item ? 'bg-blue-100 text-blue-700 font-medium' : 'text-gray-600 hover:text-gray-900'
+              }`}
             >
-              {isProcessing ? "Processing..." : "Ask Question"}
+              {item === 'conversation' ? 'Conversation' : 'Batch'}
             </button>
-          </div>
-        </form>
+          ))}
+        </div>
+        <UsageMeter workspaceId={workspaceId} />
       </div>
 
-      {/* Current Result */}
-      {currentResult && (
-        <div className="bg-white rounded-lg shadow-sm border p-6">
-          <div className="flex justify-between items-start mb-4">
-            <h3 className="text-lg font-semibold">Answer</h3>
-            <span className="text-sm text-gray-500">
-              Processed in {formatProcessingTime(currentResult.processingTime)}
-            </span>
-          </div>
-          
-          <div className="prose max-w-none mb-6">
-            <div className="bg-blue-50 p-4 rounded-lg">
-              {currentResult.answer}
+      {mode === 'batch' ? <BatchQuery workspaceId={workspaceId} /> : (
+        <div className="flex gap-6 items-start">
+          {/* Conversation List */}
+          <div className="w-64 shrink-0 bg-white rounded-lg shadow-sm border">
+            <div className="p-4 border-b">
+              <button
+                onClick={() => setConversationId(null)}
+                className="w-full bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm"
+              >
+                New conversation
+              </button>
             </div>
+            {conversations.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No conversations yet.</p>
+            ) : (
+              <div className="divide-y max-h-[32rem] overflow-y-auto">
+                {conversations.map((item) => (
+                  <div
+                    key={item._id}
+                    className={`group flex items-center justify-between px-4 py-3 text-sm cursor-pointer ${
+                      item._id === conversationId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                    }`}
+                    onClick={() => setConversationId(item._id)}
+                  >
+                    <span className="truncate">{item.title}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        void handleDeleteConversation(item._id);
+                      }}
+                      className="text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 ml-2"
+                      title="Delete conversation"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
-          {currentResult.sources.length > 0 && (
-            <div>
-              <h4 className="font-medium mb-3">Sources Referenced:</h4>
-              <div className="space-y-3">
-                {currentResult.sources.map((source: any, index: number) => (
-                  <div key={index} className="border-l-4 border-blue-200 pl-4 py-2">
-                    <div className="flex justify-between items-start mb-2">
-                      <h5 className="font-medium text-sm">
-                        Source {index + 1}: {source.documentTitle}
-                      </h5>
-                      <span className="text-xs text-gray-500">
-                        Confidence: {(source.confidence * 100).toFixed(1)}%
-                      </span>
+          {/* Thread */}
+          <div className="flex-1 min-w-0 bg-white rounded-lg shadow-sm border">
+            <div className="p-6 border-b">
+              <h2 className="text-xl font-semibold">
+                {conversation ? conversation.title : "Ask a Question"}
+              </h2>
+            </div>
+
+            {conversation && conversation.turns.length > 0 && (
+              <div className="p-6 space-y-6 max-h-[40rem] overflow-y-auto">
+                {conversation.turns.map((turn) => (
+                  <div key={turn._id} className="space-y-3">
+                    <div className="flex justify-end">
+                      <div className="bg-gray-100 px-4 py-2 rounded-lg max-w-[80%] text-sm">
+                        {turn.query}
+                      </div>
                     </div>
-                    <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded">
-                      "{source.relevantChunk}"
-                    </p>
-                    <p className="text-xs text-gray-500 mt-1">
-                      Characters {source.startIndex}-{source.endIndex}
-                    </p>
+                    <AnswerView result={turn} />
                   </div>
                 ))}
               </div>
-            </div>
-          )}
-        </div>
-      )}
+            )}
 
-      {/* Query History */}
-      {queryHistory.length > 0 && (
-        <div className="bg-white rounded-lg shadow-sm border">
-          <div className="p-6 border-b">
-            <h3 className="text-lg font-semibold">Recent Queries</h3>
-          </div>
-          <div className="divide-y max-h-96 overflow-y-auto">
-            {queryHistory.map((item) => (
-              <div key={item._id} className="p-4">
-                <div className="flex justify-between items-start mb-2">
-                  <p className="font-medium text-sm">{item.query}</p>
-                  <span className="text-xs text-gray-500">
-                    {new Date(item._creationTime).toLocaleString()}
-                  </span>
-                </div>
-                <p className="text-sm text-gray-600 mb-2">{item.response}</p>
-                <div className="flex justify-between items-center text-xs text-gray-500">
-                  <span>{item.sources.length} sources used</span>
-                  <span>{formatProcessingTime(item.processingTime)}</span>
+            {/* Query Input */}
+            <form onSubmit={handleSubmit} className="p-6 border-t space-y-4">
+              <ScopePicker workspaceId={workspaceId} scope={scope} onChange={setScope} />
+              <div>
+                <textarea
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={conversation
+                    ? "Ask a follow-up question..."
+                    : "Ask anything about your documents... e.g., 'What are the key policies mentioned?' or 'Summarize the main points about data privacy'"}
+                  className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                  rows={conversation ? 2 : 4}
+                  disabled={isProcessing}
+                />
+              </div>
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-4 text-sm text-gray-500">
+                  <p>
+                    {documents.length} document{documents.length !== 1 ? 's' : ''} available for querying
+                  </p>
+                  {/* Follow-up questions are never answered from the cache */}
+                  {!conversation && (
+                    <label className="flex items-center gap-1" title="Generate a fresh answer even if this question was answered before">
+                      <input
+                        type="checkbox"
+                        checked={bypassCache}
+                        onChange={(e) => setBypassCache(e.target.checked)}
+                      />
+                      Skip cached answers
+                    </label>
+                  )}
                 </div>
+                <button
+                  type="submit"
+                  disabled={!query.trim() || isProcessing || documents.length === 0}
+                  className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isProcessing ? "Processing..." : conversation ? "Send" : "Ask Question"}
+                </button>
               </div>
-            ))}
+            </form>
           </div>
         </div>
       )}
+
+      <QueryHistory
+        workspaceId={workspaceId}
+        onOpenConversation={(id) => {
+          setMode('conversation');
+          setConversationId(id);
+        }}
+      />
     </div>
   );
 }
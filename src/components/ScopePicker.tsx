@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+
+export type QueryScope = NonNullable<Doc<"queries">["scope"]>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Short description of a scope, e.g. "2 documents · tagged health · application/pdf"
+export function describeScope(scope: QueryScope | undefined) {
+  const parts = [];
+  if (scope?.documentIds) {
+    parts.push(`${scope.documentIds.length} document${scope.documentIds.length !== 1 ? 's' : ''}`);
+  }
+  if (scope?.tags?.length) {
+    parts.push(`tagged ${scope.tags.join(' or ')}`);
+  }
+  if (scope?.fileType) {
+    parts.push(scope.fileType);
+  }
+  if (scope?.uploadedAfter !== undefined) {
+    parts.push(`uploaded from ${new Date(scope.uploadedAfter).toLocaleDateString()}`);
+  }
+  if (scope?.uploadedBefore !== undefined) {
+    parts.push(`uploaded until ${new Date(scope.uploadedBefore).toLocaleDateString()}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'All documents';
+}
+
+// Chooses which documents a question is answered from. Unset filters match
+// every document.
+export function ScopePicker({ workspaceId, scope, onChange }: {
+  workspaceId: Id<"workspaces">;
+  scope: QueryScope;
+  onChange: (scope: QueryScope) => void;
+}) {
+  const documents = useQuery(api.documents.listDocuments, { workspaceId }) || [];
+  const [isOpen, setIsOpen] = useState(false);
+  // Older versions are left out of unscoped searches, so only offer the latest
+  const latestDocuments = documents.filter((doc) => !doc.supersededBy);
+
+  const tags = [...new Set(documents.flatMap((doc) => doc.tags))].sort();
+  const fileTypes = [...new Set(documents.map((doc) => doc.fileType))].sort();
+
+  const toggleDocument = (documentId: Id<"documents">) => {
+    const selected = scope.documentIds ?? [];
+    const documentIds = selected.includes(documentId)
+      ? selected.filter((id) => id !== documentId)
+      : [...selected, documentId];
+    onChange({ ...scope, documentIds: documentIds.length > 0 ? documentIds : undefined });
+  };
+
+  const toggleTag = (tag: string) => {
+    const selected = scope.tags ?? [];
+    const next = selected.includes(tag) ? selected.filter((item) => item !== tag) : [...selected, tag];
+    onChange({ ...scope, tags: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-gray-600 hover:text-gray-900"
+        >
+          {isOpen ? '▾' : '▸'} Search in: <span className="font-medium">{describeScope(scope)}</span>
+        </button>
+        {describeScope(scope) !== 'All documents' && (
+          <button
+            type="button"
+            onClick={() => onChange({})}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div>
+            <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Documents</p>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {latestDocuments.map((doc) => (
+                <label key={doc._id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={scope.documentIds?.includes(doc._id) ?? false}
+                    onChange={() => toggleDocument(doc._id)}
+                  />
+                  <span className="truncate">{doc.title}</span>
+                  {doc.version > 1 && <span className="text-xs text-gray-400">v{doc.version}</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {tags.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-gray-500 uppercase mb-2">Tags</p>
+              <div className="flex flex-wrap gap-1">
+                {tags.map((tag) => (
+                  <button
+                    type="button"
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`text-xs px-2 py-0.5 rounded-full ${
+                      scope.tags?.includes(tag) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2">
+              File type
+              <select
+                value={scope.fileType ?? ''}
+                onChange={(e) => onChange({ ...scope, fileType: e.target.value || undefined })}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              >
+                <option value="">Any</option>
+                {fileTypes.map((fileType) => (
+                  <option key={fileType} value={fileType}>{fileType}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Uploaded from
+              <input
+                type="date"
+                value={toDateInput(scope.uploadedAfter)}
+                onChange={(e) => onChange({
+                  ...scope,
+                  uploadedAfter: e.target.value ? new Date(`${e.target.value}T00:00`).getTime() : undefined,
+                })}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              to
+              <input
+                type="date"
+                value={toDateInput(scope.uploadedBefore)}
+                onChange={(e) => onChange({
+                  ...scope,
+                  // Include the whole of the last day
+                  uploadedBefore: e.target.value ? new Date(`${e.target.value}T00:00`).getTime() + DAY_MS - 1 : undefined,
+                })}
+                className="border border-gray-300 rounded-md px-2 py-1"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function toDateInput(time: number | undefined) {
+  if (time === undefined) return '';
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+type ModelSettings = NonNullable<Doc<"settings">["modelSettings"]>;
+type AnswerCacheSettings = NonNullable<Doc<"settings">["answerCache"]>;
+
+// Suggestions only; any model the provider supports can be entered
+const SUGGESTED_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'];
+
+export function SettingsPanel({ workspaceId, canEdit }: {
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+}) {
+  const settings = useQuery(api.settings.getSettings, { workspaceId });
+  const updateSettings = useMutation(api.settings.updateSettings);
+
+  // Null until edited, so the form shows the saved settings
+  const [draft, setDraft] = useState<ModelSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!settings) {
+    return null;
+  }
+
+  const modelSettings = draft ?? settings.modelSettings;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await updateSettings({ workspaceId, modelSettings });
+      setDraft(null);
+      toast.success('Model settings saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save model settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h2 className="text-xl font-semibold mb-1">Model Settings</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Used to answer questions about this workspace's documents, including questions sent through the HTTP API with this workspace's keys.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+        <fieldset disabled={!canEdit} className="space-y-4">
+          <label className="block text-sm text-gray-700">
+            Model
+            <input
+              list="suggested-models"
+              value={modelSettings.model}
+              onChange={(e) => setDraft({ ...modelSettings, model: e.target.value })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+            <datalist id="suggested-models">
+              {SUGGESTED_MODELS.map((model) => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Temperature ({modelSettings.temperature.toFixed(1)})
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={modelSettings.temperature}
+              onChange={(e) => setDraft({ ...modelSettings, temperature: Number(e.target.value) })}
+              className="mt-1 w-full"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Max tokens
+            <input
+              type="number"
+              min={1}
+              value={modelSettings.maxTokens}
+              onChange={(e) => setDraft({ ...modelSettings, maxTokens: Number(e.target.value) })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+        </fieldset>
+        {canEdit ? (
+          <button
+            type="submit"
+            disabled={!draft || isSaving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        ) : (
+          <p className="text-sm text-gray-500">Only editors and owners can change these settings.</p>
+        )}
+      </form>
+
+      <AnswerCache workspaceId={workspaceId} canEdit={canEdit} settings={settings.answerCache} />
+    </div>
+  );
+}
+
+// Saved as soon as either option changes
+function AnswerCache({ workspaceId, canEdit, settings }: {
+  workspaceId: Id<"workspaces">;
+  canEdit: boolean;
+  settings: AnswerCacheSettings;
+}) {
+  const updateSettings = useMutation(api.settings.updateSettings);
+
+  const handleChange = async (answerCache: AnswerCacheSettings) => {
+    try {
+      await updateSettings({ workspaceId, answerCache });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save cache settings');
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t max-w-md">
+      <h3 className="font-semibold mb-1">Answer cache</h3>
+      <p className="text-sm text-gray-500 mb-3">
+        Repeated questions reuse an earlier answer while the documents searched and the model settings stay the same, instead of calling the model again.
+      </p>
+      <fieldset disabled={!canEdit} className="space-y-2 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => handleChange({ ...settings, enabled: e.target.checked })}
+          />
+          Reuse answers to repeated questions
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.matchSimilarQuestions}
+            disabled={!settings.enabled}
+            onChange={(e) => handleChange({ ...settings, matchSimilarQuestions: e.target.checked })}
+          />
+          Also reuse answers to similarly worded questions
+        </label>
+      </fieldset>
+    </div>
+  );
+}
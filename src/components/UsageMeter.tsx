@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+type Quotas = { workspaceDailyTokens: number; memberDailyTokens: number };
+
+// Compact view of today's token usage against the workspace's quotas
+export function UsageMeter({ workspaceId }: { workspaceId: Id<"workspaces"> }) {
+  const usage = useQuery(api.usage.getUsage, { workspaceId });
+
+  if (!usage) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-6 text-xs text-gray-500">
+      <UsageBar label="You today" used={usage.member.tokens} limit={usage.quotas.memberDailyTokens} />
+      <UsageBar label="Workspace today" used={usage.workspace.tokens} limit={usage.quotas.workspaceDailyTokens} />
+    </div>
+  );
+}
+
+// Usage details; owners can change the daily quotas
+export function UsagePanel({ workspaceId, canManage }: {
+  workspaceId: Id<"workspaces">;
+  canManage: boolean;
+}) {
+  const usage = useQuery(api.usage.getUsage, { workspaceId });
+  const updateQuotas = useMutation(api.usage.updateQuotas);
+
+  // Null until edited, so the form shows the saved quotas
+  const [draft, setDraft] = useState<Quotas | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!usage) {
+    return null;
+  }
+
+  const quotas = draft ?? usage.quotas;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await updateQuotas({ workspaceId, quotas });
+      setDraft(null);
+      toast.success('Quotas saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save quotas');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h2 className="text-xl font-semibold mb-1">Usage</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Tokens sent to and generated by the model today, including questions asked through the HTTP API.
+        Quotas reset at {new Date(usage.resetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} your time.
+      </p>
+
+      <div className="space-y-3 max-w-md mb-6 text-sm text-gray-700">
+        <UsageBar
+          label={`You (${usage.member.queries} questions)`}
+          used={usage.member.tokens}
+          limit={usage.quotas.memberDailyTokens}
+        />
+        <UsageBar
+          label={`Workspace (${usage.workspace.queries} questions)`}
+          used={usage.workspace.tokens}
+          limit={usage.quotas.workspaceDailyTokens}
+        />
+        <UsageBar label="You, across all workspaces" used={usage.account.tokens} limit={usage.accountDailyTokens} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+        <fieldset disabled={!canManage} className="space-y-4">
+          <label className="block text-sm text-gray-700">
+            Daily tokens per member
+            <input
+              type="number"
+              min={1}
+              value={quotas.memberDailyTokens}
+              onChange={(e) => setDraft({ ...quotas, memberDailyTokens: Number(e.target.value) })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Daily tokens for the workspace
+            <input
+              type="number"
+              min={1}
+              value={quotas.workspaceDailyTokens}
+              onChange={(e) => setDraft({ ...quotas, workspaceDailyTokens: Number(e.target.value) })}
+              className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+            />
+          </label>
+        </fieldset>
+        {canManage ? (
+          <button
+            type="submit"
+            disabled={!draft || isSaving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save quotas'}
+          </button>
+        ) : (
+          <p className="text-sm text-gray-500">Only owners can change quotas.</p>
+        )}
+      </form>
+    </div>
+  );
+}
+
+function UsageBar({ label, used, limit }: { label: string; used: number; limit: number }) {
+  const fraction = Math.min(1, used / limit);
+
+  return (
+    <div className="flex-1 min-w-[10rem]">
+      <div className="flex justify-between mb-1">
+        <span>{label}</span>
+        <span>{used.toLocaleString()} / {limit.toLocaleString()}</span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={`h-full ${fraction >= 1 ? 'bg-red-500' : fraction >= 0.8 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${fraction * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Workspace } from "./WorkspaceSwitcher";
+
+type Role = Workspace['role'];
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: 'Manages members and everything else',
+  editor: 'Adds, changes and deletes documents',
+  viewer: 'Reads documents and asks questions',
+};
+
+// Who is in the workspace; owners can invite people and change roles
+export function WorkspaceMembers({ workspace, currentUserId }: {
+  workspace: Workspace;
+  currentUserId: Id<"users"> | undefined;
+}) {
+  const members = useQuery(api.workspaces.listMembers, { workspaceId: workspace._id });
+  const renameWorkspace = useMutation(api.workspaces.renameWorkspace);
+  const inviteMember = useMutation(api.workspaces.inviteMember);
+  const revokeInvitation = useMutation(api.workspaces.revokeInvitation);
+  const updateMemberRole = useMutation(api.workspaces.updateMemberRole);
+  const removeMember = useMutation(api.workspaces.removeMember);
+
+  const [name, setName] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>('viewer');
+  // The code for an invitation just sent; it can't be shown again
+  const [revealed, setRevealed] = useState<{ email: string; code: string } | null>(null);
+
+  const isOwner = workspace.role === 'owner';
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name === null) return;
+
+    try {
+      await renameWorkspace({ workspaceId: workspace._id, name });
+      setName(null);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to rename workspace');
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    try {
+      const { code } = await inviteMember({ workspaceId: workspace._id, email, role });
+      setRevealed({ email: email.trim(), code });
+      setEmail("");
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to invite member');
+    }
+  };
+
+  const handleRoleChange = async (userId: Id<"users">, newRole: Role) => {
+    try {
+      await updateMemberRole({ workspaceId: workspace._id, userId, role: newRole });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to change role');
+    }
+  };
+
+  const handleRemove = async (userId: Id<"users">) => {
+    const leaving = userId === currentUserId;
+    if (!confirm(leaving ? 'Leave this workspace?' : 'Remove this member from the workspace?')) return;
+
+    try {
+      await removeMember({ workspaceId: workspace._id, userId });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove member');
+    }
+  };
+
+  const handleRevoke = async (invitationId: Id<"workspaceInvitations">) => {
+    try {
+      await revokeInvitation({ invitationId });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to revoke invitation');
+    }
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Failed to copy; select the code and copy it manually');
+    }
+  };
+
+  if (!members) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      {name !== null ? (
+        <form onSubmit={handleRename} className="flex items-center gap-2 mb-1">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="border border-gray-300 rounded-md px-2 py-1"
+          />
+          <button type="submit" className="text-sm text-blue-600 hover:text-blue-800">Save</button>
+          <button type="button" onClick={() => setName(null)} className="text-sm text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <h2 className="text-xl font-semibold mb-1">
+          {workspace.name}
+          {isOwner && (
+            <button
+              onClick={() => setName(workspace.name)}
+              className="ml-3 text-sm font-normal text-blue-600 hover:text-blue-800"
+            >
+              Rename
+            </button>
+          )}
+        </h2>
+      )}
+      <p className="text-sm text-gray-500 mb-4">
+        Everyone here shares the workspace's documents and settings. Question history stays private to each member, though editors and owners see questions in aggregate on the Analytics tab.
+      </p>
+
+      {revealed && (
+        <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg text-sm">
+          <p className="mb-2">
+            Send this code to <span className="font-medium">{revealed.email}</span> now. It won't be shown again, and they need it to accept.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white border rounded px-2 py-1 font-mono text-xs break-all">{revealed.code}</code>
+            <button onClick={() => handleCopy(revealed.code)} className="text-blue-600 hover:text-blue-800">
+              Copy
+            </button>
+            <button onClick={() => setRevealed(null)} className="text-gray-500 hover:text-gray-700">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ul className="divide-y border rounded-md">
+        {members.members.map((member) => (
+          <li key={member.userId} className="flex items-center justify-between px-4 py-2 text-sm">
+            <span>
+              {member.name ?? member.email ?? 'Anonymous user'}
+              {member.name && member.email && <span className="text-gray-400 ml-2">{member.email}</span>}
+              {member.userId === currentUserId && <span className="text-gray-400 ml-2">(you)</span>}
+            </span>
+            <div className="flex items-center gap-3">
+              {isOwner ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member.userId, e.target.value as Role)}
+                  className="border border-gray-300 rounded-md px-2 py-1"
+                >
+                  {(Object.keys(ROLE_DESCRIPTIONS) as Role[]).map((item) => (
+                    <option key={item} value={item}>{item}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-gray-500">{member.role}</span>
+              )}
+              {(isOwner || member.userId === currentUserId) && !(workspace.personal && member.userId === currentUserId) && (
+                <button
+                  onClick={() => handleRemove(member.userId)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  {member.userId === currentUserId ? 'Leave' : 'Remove'}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+        {members.invitations.map((invitation) => (
+          <li key={invitation._id} className="flex items-center justify-between px-4 py-2 text-sm text-gray-500">
+            <span>{invitation.email} <span className="italic">(invited)</span></span>
+            <div className="flex items-center gap-3">
+              <span>{invitation.role}</span>
+              {isOwner && (
+                <button onClick={() => handleRevoke(invitation._id)} className="text-red-600 hover:text-red-800">
+                  Revoke
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <form onSubmit={handleInvite} className="mt-4 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Invite by email"
+              className="flex-1 border border-gray-300 rounded-md px-3 py-2 text-sm"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="border border-gray-300 rounded-md px-2 py-2 text-sm"
+            >
+              {(Object.keys(ROLE_DESCRIPTIONS) as Role[]).map((item) => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!email.trim()}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              Invite
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {ROLE_DESCRIPTIONS[role]}. They'll see the invitation when they sign in with this email, and accept it with the code you send them.
+          </p>
+        </form>
+      )}
+    </div>
+  );
+}
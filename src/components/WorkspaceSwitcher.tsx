@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+export type Workspace = FunctionReturnType<typeof api.workspaces.listWorkspaces>[number];
+
+const WORKSPACE_STORAGE_KEY = 'workspaceId';
+
+// The workspace chosen in the header, remembered across visits. Falls back to
+// the personal workspace, which is created on the first visit.
+export function useCurrentWorkspace() {
+  const { isAuthenticated } = useConvexAuth();
+  const workspaces = useQuery(api.workspaces.listWorkspaces, isAuthenticated ? {} : "skip");
+  const ensurePersonalWorkspace = useMutation(api.workspaces.ensurePersonalWorkspace);
+  const [selectedId, setSelectedId] = useState(() => localStorage.getItem(WORKSPACE_STORAGE_KEY));
+
+  const needsPersonalWorkspace = workspaces !== undefined && !workspaces.some((workspace) => workspace.personal);
+  useEffect(() => {
+    if (needsPersonalWorkspace) {
+      ensurePersonalWorkspace().catch((error: any) => {
+        toast.error(error.message || 'Failed to set up your workspace');
+      });
+    }
+  }, [needsPersonalWorkspace, ensurePersonalWorkspace]);
+
+  const workspace = workspaces?.find((item) => item._id === selectedId) ??
+    workspaces?.find((item) => item.personal);
+
+  const selectWorkspace = (workspaceId: Id<"workspaces">) => {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+    setSelectedId(workspaceId);
+  };
+
+  return { workspaces: workspaces ?? [], workspace, selectWorkspace };
+}
+
+export function WorkspaceSwitcher({ workspaces, workspace, onSelect }: {
+  workspaces: Workspace[];
+  workspace: Workspace | undefined;
+  onSelect: (workspaceId: Id<"workspaces">) => void;
+}) {
+  const createWorkspace = useMutation(api.workspaces.createWorkspace);
+  const [newName, setNewName] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName?.trim()) return;
+
+    try {
+      const workspaceId = await createWorkspace({ name: newName });
+      onSelect(workspaceId);
+      setNewName(null);
+      toast.success('Workspace created');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create workspace');
+    }
+  };
+
+  if (!workspace) {
+    return null;
+  }
+
+  if (newName !== null) {
+    return (
+      <form onSubmit={handleCreate} className="flex items-center gap-2 text-sm">
+        <input
+          autoFocus
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setNewName(null);
+          }}
+          placeholder="Workspace name"
+          className="border border-gray-300 rounded-md px-2 py-1"
+        />
+        <button type="submit" disabled={!newName.trim()} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">
+          Create
+        </button>
+        <button type="button" onClick={() => setNewName(null)} className="text-gray-500 hover:text-gray-700">
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <select
+      value={workspace._id}
+      onChange={(e) => {
+        if (e.target.value === 'new') {
+          setNewName('');
+        } else {
+          onSelect(e.target.value as Id<"workspaces">);
+        }
+      }}
+      className="border border-gray-300 rounded-md px-2 py-1 text-sm bg-white"
+      title="Switch workspace"
+    >
+      {workspaces.map((item) => (
+        <option key={item._id} value={item._id}>
+          {item.name}{item.personal ? '' : ` (${item.role})`}
+        </option>
+      ))}
+      <option value="new">+ New workspace...</option>
+    </select>
+  );
+}
+
+// Invitations to other workspaces waiting for the signed-in user
+export function PendingInvitations({ onAccept }: { onAccept: (workspaceId: Id<"workspaces">) => void }) {
+  const invitations = useQuery(api.workspaces.listMyInvitations) || [];
+  const acceptInvitation = useMutation(api.workspaces.acceptInvitation);
+  const declineInvitation = useMutation(api.workspaces.declineInvitation);
+  // Codes typed so far, by invitation
+  const [codes, setCodes] = useState<Record<string, string>>({});
+
+  const handleAccept = async (invitationId: Id<"workspaceInvitations">) => {
+    try {
+      onAccept(await acceptInvitation({ invitationId, code: codes[invitationId] ?? "" }));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to accept invitation');
+    }
+  };
+
+  const handleDecline = async (invitationId: Id<"workspaceInvitations">) => {
+    try {
+      await declineInvitation({ invitationId });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to decline invitation');
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-2">
+      {invitations.map((invitation) => (
+        <div
+          key={invitation._id}
+          className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-3 text-sm"
+        >
+          <span>
+            {invitation.invitedBy ?? 'Someone'} invited you to <span className="font-medium">{invitation.workspaceName}</span> as {ROLE_ARTICLES[invitation.role]} {invitation.role}.
+          </span>
+          <div className="flex items-center gap-3">
+            <input
+              value={codes[invitation._id] ?? ""}
+              onChange={(e) => setCodes({ ...codes, [invitation._id]: e.target.value })}
+              placeholder="Invitation code"
+              className="border border-gray-300 rounded-md px-2 py-1 font-mono text-xs"
+            />
+            <button
+              onClick={() => handleAccept(invitation._id)}
+              disabled={!codes[invitation._id]?.trim()}
+              className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+            >
+              Accept
+            </button>
+            <button onClick={() => handleDecline(invitation._id)} className="text-gray-500 hover:text-gray-700">
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const ROLE_ARTICLES = {
+  owner: 'an',
+  editor: 'an',
+  viewer: 'a',
+};